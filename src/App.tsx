@@ -1,22 +1,38 @@
-import { useEffect, useRef, useState } from 'react'
+import { MouseEvent as ReactMouseEvent, useEffect, useRef, useState } from 'react'
+import { MAP_HEIGHT, MAP_WIDTH, NOON_MINUTES, TILE_SIZE } from './game/constants'
+import { BuffType, Camera, ItemType, Player, Recipe, Tile, TileType, VolumeSettings } from './game/types'
+import { randomSeedText } from './game/rng'
+import { createSaveDocument, createSlotId, deleteSlot, describeSaveError, exportSave, importSave, listSaveSlots, loadActiveSave, loadSlot, SaveDocument, saveWorld, SaveSlotSummary, setActiveSlotId, writeSlot } from './game/save'
+import { formatItems, ITEM_PROPS, RECIPES, STATION_NAMES } from './game/items'
+import { createWorld, getFacingTarget, isInBounds, isNearStation, triggerTide, World } from './game/world'
+import { canPlaceAt, craft, dropItem, eatItem, interact, openItem, placeItem, repairTool } from './game/actions'
+import { addFuel, BUFF_NAMES, COOKING_RECIPES, FUEL_MINUTES, getBurnMinutesLeft, getFreshness, isBurning } from './game/cooking'
+import { CROP_STAGES, getCropStage, isWateredToday, WATERING_CAN_CAPACITY } from './game/farming'
+import { simulate } from './game/simulation'
+import { countItem, getTotals, HOTBAR_SIZE, InventorySlots, isHotbarItem, moveStack, togglePin } from './game/inventory'
+import { subscribe } from './game/events'
+import { ACHIEVEMENTS, getCurrentQuest, isComplete, QUESTS } from './game/progress'
+import { planPath } from './game/pathfinding'
+import { transferStack } from './game/storage'
+import { getDurabilityRatio, getRepairCost, TOOLS } from './game/tools'
+import { getForecast, getTodaysWeather, WEATHER_NAMES } from './game/weather'
+import { getIslandName } from './game/islands'
+import { CHUNK_SIZE, chunkKey, getChunkRevision } from './game/chunks'
+import { RunSummary } from './game/survival'
+import { getTideStatus, isTidePool } from './game/tide'
+import { Inventory } from './game/items'
+import { isAtlasReady, loadAtlas } from './render/atlas'
+import { drawEntity, drawItem, drawPlayer, drawStructure, drawTileSprite } from './render/assets'
+import { drawRoundedRect } from './render/drawings'
+import { addFloatingText, clearFloatingText, createFloatingTextLayer, drawFloatingText, updateFloatingText } from './render/floatingText'
+import { clearParticles, createParticleSystem, drawParticles, EmitterId, emitAt, updateParticles } from './render/particles'
+import { Bindings, ACTION_LABELS, BINDING_SLOTS, clearBinding, describeBinding, formatKey, getBoundAction, HOTBAR_ACTIONS, INPUT_ACTIONS, InputAction, loadBindings, rebind, resetBindings, saveBindings } from './input/bindings'
+import { createInputState, isHeld, pollGamepad, readMove, releaseAll } from './input/controller'
+import TouchControls from './input/TouchControls'
+import { createSoundEngine, DEFAULT_VOLUME, playSound, setVolume, SoundId, startAudio, updateAmbience } from './audio/sound'
 
 // --- Constants & Types ---
 
-const TILE_SIZE = 64 
-const MAP_WIDTH = 50
-const MAP_HEIGHT = 50
-
-const REAL_SEC_PER_GAME_MIN = 1 
-const GAME_MINS_PER_DAY = 24 * 60 
-const NOON_MINUTES = 12 * 60 
-
-enum TileType {
-  DeepWater = 0,
-  ShallowWater = 1,
-  Sand = 2,
-  Grass = 3,
-}
-
 const TILE_COLORS = {
   [TileType.DeepWater]: '#1a4480',   
   [TileType.ShallowWater]: '#4da6ff', 
@@ -31,128 +47,196 @@ const TILE_LAYER_ORDER = {
   [TileType.DeepWater]: 0
 }
 
-type ItemType = 'driftwood' | 'crate' | 'metal' | 'axe' | 'wood' | 'coconut' | 'tree' | 'tree_stump' | 'wall_wood'
-type Direction = 'up' | 'down' | 'left' | 'right'
-type ItemCategory = 'tool' | 'structure' | 'resource'
+// Feedback for working things on the ground; anything else picked up sparkles
+const INTERACT_EFFECTS: { [key in ItemType]?: { particles: EmitterId, sound: SoundId } } = {
+  tree: { particles: 'chips', sound: 'chop' },
+  rock: { particles: 'shards', sound: 'mine' },
+  ore: { particles: 'shards', sound: 'mine' },
+}
 
-interface Tile {
-  type: TileType
-  item?: ItemType
-  stumpChoppedAt?: number
-  placedStructure?: ItemType
-  variant?: number 
+const STEP_SOUNDS: Record<TileType, SoundId> = {
+  [TileType.DeepWater]: 'step_water',
+  [TileType.ShallowWater]: 'step_water',
+  [TileType.Sand]: 'step_sand',
+  [TileType.Grass]: 'step_grass',
 }
 
-interface Player {
-  x: number
-  y: number
-  targetX: number
-  targetY: number
-  isMoving: boolean
-  facing: Direction
-  energy: number
-  hunger: number
-  isResting: boolean
+const IS_TOUCH_DEVICE = 'ontouchstart' in window || navigator.maxTouchPoints > 0
+
+const VOLUME_LABELS: Record<keyof VolumeSettings, string> = {
+  master: 'Master',
+  sfx: 'Effects',
+  ambient: 'Ambience',
 }
 
-interface Camera {
-  x: number
-  y: number
+// --- Helper Functions ---
+
+const formatTime = (totalMinutes: number): string => {
+  const h = Math.floor(totalMinutes / 60)
+  const m = Math.floor(totalMinutes % 60)
+  const ampm = h >= 12 ? 'PM' : 'AM'
+  const displayH = h % 12 === 0 ? 12 : h % 12
+  const displayM = m < 10 ? `0${m}` : m
+  return `${displayH}:${displayM} ${ampm}`
 }
 
-interface GameState {
-  day: number
-  timeOfDay: number 
-  totalMinutes: number
-  inventory: { [key in ItemType]?: number }
+const formatDuration = (minutes: number): string => {
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return h > 0 ? `${h}h ${m}m` : `${m}m`
 }
 
-interface Recipe {
-  id: string
-  name: string
-  result: ItemType
-  amount: number
-  ingredients: { [key in ItemType]?: number }
+// --- Messages ---
+// Anything the player should know about goes to the log; the important ones
+// also pop up as toasts for a few seconds
+
+const MAX_LOG_MESSAGES = 50
+const TOAST_MS = 4000
+
+type MessageKind = 'info' | 'good' | 'warning'
+
+interface LogMessage {
+  id: number
+  text: string
+  kind: MessageKind
+  stamp: string // In-game time it was last seen
+  count: number // Repeats in a row are folded into one line
 }
 
-const RECIPES: Recipe[] = [
-  { id: 'craft_axe', name: 'Axe', result: 'axe', amount: 1, ingredients: { metal: 1, driftwood: 1 } },
-  { id: 'craft_crate', name: 'Crate', result: 'crate', amount: 1, ingredients: { driftwood: 6 } },
-  { id: 'craft_wall_wood', name: 'Wooden Wall', result: 'wall_wood', amount: 1, ingredients: { wood: 2 } }
-]
-
-const ITEM_PROPS: { [key in ItemType]?: { edible?: boolean, hungerRestore?: number, placeable?: boolean, category: ItemCategory } } = {
-  axe: { category: 'tool' },
-  wall_wood: { placeable: true, category: 'structure' },
-  coconut: { edible: true, hungerRestore: 20, category: 'resource' },
-  driftwood: { category: 'resource' },
-  wood: { category: 'resource' },
-  metal: { category: 'resource' },
-  crate: { category: 'resource' },
-  tree: { category: 'resource' }, // Should not be in inv usually
-  tree_stump: { category: 'resource' } // Should not be in inv usually
+const MESSAGE_COLORS: Record<MessageKind, string> = { info: '#e0e0e0', good: '#81c784', warning: '#ffb74d' }
+
+// Stacks are changed in place by the game, so the UI keeps its own copy
+const copySlots = (slots: InventorySlots): InventorySlots => slots.map(stack => stack && { ...stack })
+
+const toUiStats = (player: Player) => {
+  return { energy: Math.floor(player.energy), hunger: Math.floor(player.hunger), health: Math.ceil(player.health) }
 }
 
-const STORAGE_KEY_MAP = 'tides_map_v2' 
-const STORAGE_KEY_PLAYER = 'tides_player_v2'
-const STORAGE_KEY_GAMESTATE = 'tides_gamestate_v2'
+// Everything about a tile that only changes when the tile (or a neighbour) does
+const drawTerrainTile = (ctx: CanvasRenderingContext2D, map: Tile[][], x: number, y: number, drawX: number, drawY: number) => {
+  const tile = map[y][x]
 
-// --- Helper Functions ---
+  if (!drawTileSprite(ctx, tile.type, drawX, drawY)) {
+    ctx.fillStyle = TILE_COLORS[tile.type]
+    ctx.fillRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
+  }
+
+  // Terrain Blending
+  {
+    const currentLayer = TILE_LAYER_ORDER[tile.type]
+    const overlapSize = 12
+    const edgeSeed = (x * 11 + y * 17)
+
+    const drawBlend = (nx: number, ny: number, direction: 'up'|'down'|'left'|'right') => {
+       if (nx < 0 || nx >= MAP_WIDTH || ny < 0 || ny >= MAP_HEIGHT) return
+       const neighbor = map[ny][nx]
+       if (TILE_LAYER_ORDER[neighbor.type] > currentLayer) {
+         ctx.fillStyle = TILE_COLORS[neighbor.type]
+         if (direction === 'up') { 
+            for (let i=0; i<TILE_SIZE; i+=4) {
+               const h = overlapSize + (Math.sin(x*10 + i + edgeSeed) * 4)
+               ctx.fillRect(drawX + i, drawY, 4, h)
+            }
+         }
+         else if (direction === 'down') { 
+            for (let i=0; i<TILE_SIZE; i+=4) {
+               const h = overlapSize + (Math.sin(x*10 + i + edgeSeed) * 4)
+               ctx.fillRect(drawX + i, drawY + TILE_SIZE - h, 4, h)
+            }
+         }
+         else if (direction === 'left') { 
+            for (let i=0; i<TILE_SIZE; i+=4) {
+               const w = overlapSize + (Math.sin(y*10 + i + edgeSeed) * 4)
+               ctx.fillRect(drawX, drawY + i, w, 4)
+            }
+         }
+         else if (direction === 'right') { 
+            for (let i=0; i<TILE_SIZE; i+=4) {
+               const w = overlapSize + (Math.sin(y*10 + i + edgeSeed) * 4)
+               ctx.fillRect(drawX + TILE_SIZE - w, drawY + i, w, 4)
+            }
+         }
+       }
+    }
+    drawBlend(x, y-1, 'up')
+    drawBlend(x, y+1, 'down')
+    drawBlend(x-1, y, 'left')
+    drawBlend(x+1, y, 'right')
+  }
 
-const generateMap = (): Tile[][] => {
-  const map: Tile[][] = []
-  const centerX = MAP_WIDTH / 2
-  const centerY = MAP_HEIGHT / 2
-  const grassRadius = 10
-  const sandRadius = 15
-  const shallowRadius = 22
-
-  for (let y = 0; y < MAP_HEIGHT; y++) {
-    const row: Tile[] = []
-    for (let x = 0; x < MAP_WIDTH; x++) {
-      const dx = x - centerX
-      const dy = y - centerY
-      const distance = Math.sqrt(dx * dx + dy * dy)
-      let type = TileType.DeepWater
-      let item: ItemType | undefined = undefined
-
-      if (distance < grassRadius) {
-        type = TileType.Grass
-        if (Math.random() < 0.20) item = 'tree'
-      } else if (distance < sandRadius) {
-        type = TileType.Sand
-      } else if (distance < shallowRadius) {
-        type = TileType.ShallowWater
+  // Procedural Details
+  {
+    const seed = (x * 1313 + y * 3737 + (tile.variant||0) * 1000)
+    if (tile.type === TileType.Grass) {
+      ctx.fillStyle = '#7bc06b' 
+      const tuftCount = Math.floor((seed % 3) + 1)
+      for (let i=0; i<tuftCount; i++) {
+         const tx = (seed * (i+1) * 37) % (TILE_SIZE-4)
+         const ty = (seed * (i+1) * 73) % (TILE_SIZE-4)
+         ctx.fillRect(drawX + tx, drawY + ty, 4, 4)
+      }
+    }
+    else if (tile.type === TileType.Sand) {
+      // Beach the tide has just uncovered stays dark and wet
+      if (tile.elevation !== undefined) {
+        ctx.fillStyle = 'rgba(120, 90, 40, 0.18)'
+        ctx.fillRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
+      }
+      ctx.fillStyle = '#e0d0a0'
+      for (let i=0; i<5; i++) {
+         const tx = (seed * (i+1) * 19) % (TILE_SIZE-2)
+         const ty = (seed * (i+1) * 47) % (TILE_SIZE-2)
+         ctx.fillRect(drawX + tx, drawY + ty, 2, 2)
+      }
+      if (isTidePool(tile)) {
+        ctx.fillStyle = TILE_COLORS[TileType.ShallowWater]
+        ctx.beginPath(); ctx.ellipse(drawX + TILE_SIZE / 2, drawY + TILE_SIZE / 2, 20, 12, (seed % 7) / 7, 0, Math.PI * 2); ctx.fill()
+        ctx.strokeStyle = 'rgba(255,255,255,0.4)'
+        ctx.lineWidth = 2
+        ctx.stroke()
       }
-      row.push({ type, item, variant: Math.random() })
     }
-    map.push(row)
   }
-  return map
 }
 
-const formatTime = (totalMinutes: number): string => {
-  const h = Math.floor(totalMinutes / 60)
-  const m = Math.floor(totalMinutes % 60)
-  const ampm = h >= 12 ? 'PM' : 'AM'
-  const displayH = h % 12 === 0 ? 12 : h % 12
-  const displayM = m < 10 ? `0${m}` : m
-  return `${displayH}:${displayM} ${ampm}`
+// --- Terrain Cache ---
+
+const MAX_CACHED_CHUNKS = 48
+
+interface TerrainCache {
+  world: World | null
+  atlasReady: boolean // Chunks drawn before the atlas loaded are redrawn with sprites
+  chunks: Map<string, { canvas: HTMLCanvasElement, revision: number }>
 }
 
-const drawRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
-  ctx.beginPath()
-  ctx.moveTo(x + r, y)
-  ctx.lineTo(x + w - r, y)
-  ctx.quadraticCurveTo(x + w, y, x + w, y + r)
-  ctx.lineTo(x + w, y + h - r)
-  ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h)
-  ctx.lineTo(x + r, y + h)
-  ctx.quadraticCurveTo(x, y + h, x, y + h - r)
-  ctx.lineTo(x, y + r)
-  ctx.quadraticCurveTo(x, y, x + r, y)
-  ctx.closePath()
-  ctx.fill()
+// Returns the pre-rendered terrain for a chunk, redrawing it if the chunk changed since
+const getTerrainChunk = (cache: TerrainCache, world: World, cx: number, cy: number): HTMLCanvasElement => {
+  if (cache.world !== world || cache.atlasReady !== isAtlasReady()) {
+    cache.world = world
+    cache.atlasReady = isAtlasReady()
+    cache.chunks.clear()
+  }
+  const key = chunkKey(world.gameState.island, cx, cy)
+  const revision = getChunkRevision(world, key)
+  const cached = cache.chunks.get(key)
+  if (cached) {
+    // Re-insert so the map stays in least-recently-used order
+    cache.chunks.delete(key)
+    cache.chunks.set(key, cached)
+    if (cached.revision === revision) return cached.canvas
+  }
+
+  const canvas = cached?.canvas ?? document.createElement('canvas')
+  canvas.width = canvas.height = CHUNK_SIZE * TILE_SIZE
+  const ctx = canvas.getContext('2d')!
+  for (let y = cy * CHUNK_SIZE; y < Math.min((cy + 1) * CHUNK_SIZE, MAP_HEIGHT); y++) {
+    for (let x = cx * CHUNK_SIZE; x < Math.min((cx + 1) * CHUNK_SIZE, MAP_WIDTH); x++) {
+      drawTerrainTile(ctx, world.map, x, y, (x - cx * CHUNK_SIZE) * TILE_SIZE, (y - cy * CHUNK_SIZE) * TILE_SIZE)
+    }
+  }
+  cache.chunks.set(key, { canvas, revision })
+  if (cache.chunks.size > MAX_CACHED_CHUNKS) cache.chunks.delete(cache.chunks.keys().next().value!)
+  return canvas
 }
 
 // --- Main Component ---
@@ -160,59 +244,186 @@ const drawRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w:
 function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   
-  const loadOrInitMap = (): Tile[][] => {
-    const saved = localStorage.getItem(STORAGE_KEY_MAP)
-    if (saved) { try { return JSON.parse(saved) } catch (e) { console.error(e) } }
-    return generateMap()
-  }
-
-  const loadOrInitPlayer = (): Player => {
-    const saved = localStorage.getItem(STORAGE_KEY_PLAYER)
-    if (saved) { try { return JSON.parse(saved) } catch (e) { console.error(e) } }
-    const initialX = Math.floor(MAP_WIDTH / 2)
-    const initialY = Math.floor(MAP_HEIGHT / 2)
-    return { x: initialX, y: initialY, targetX: initialX, targetY: initialY, isMoving: false, facing: 'down', energy: 100, hunger: 100, isResting: false }
-  }
-
-  const loadOrInitGameState = (): GameState => {
-    const saved = localStorage.getItem(STORAGE_KEY_GAMESTATE)
-    if (saved) { try { return JSON.parse(saved) } catch (e) { console.error(e) } }
-    return { day: 1, timeOfDay: 8 * 60, totalMinutes: 8 * 60, inventory: {} }
-  }
+  const [boot] = useState(() => {
+    try {
+      const active = loadActiveSave()
+      if (active) return { slot: { id: active.id, name: active.doc.name }, doc: active.doc, error: null }
+    } catch (e) {
+      // Bad data is reported on the save menu rather than silently replaced
+      return { slot: null, doc: createSaveDocument('Island', randomSeedText()), error: describeSaveError(e) }
+    }
+    return { slot: null, doc: createSaveDocument('Island', randomSeedText()), error: null }
+  })
 
-  const mapRef = useRef<Tile[][]>(loadOrInitMap())
-  const playerRef = useRef<Player>(loadOrInitPlayer())
-  const gameStateRef = useRef<GameState>(loadOrInitGameState())
+  const worldRef = useRef<World>(createWorld(boot.doc.map, boot.doc.player, boot.doc.gameState, boot.doc.islands, boot.doc.entities))
+  const slotRef = useRef<{ id: string, name: string } | null>(boot.slot)
   
   const cameraRef = useRef<Camera>({ x: 0, y: 0 })
   const lastTimeRef = useRef<number>(0)
-  const timeAccumulatorRef = useRef<number>(0)
   const saveTimerRef = useRef<number>(0)
-  const regenTimerRef = useRef<number>(0)
   const animRef = useRef<number>(0)
 
-  const [uiTime, setUiTime] = useState<string>(formatTime(gameStateRef.current.timeOfDay))
-  const [uiDay, setUiDay] = useState<number>(gameStateRef.current.day)
-  const [uiStats, setUiStats] = useState({ energy: playerRef.current.energy, hunger: playerRef.current.hunger })
-  const [uiInventory, setUiInventory] = useState<{ [key in ItemType]?: number }>(gameStateRef.current.inventory)
+  const [uiTime, setUiTime] = useState<string>(formatTime(worldRef.current.gameState.timeOfDay))
+  const [uiDay, setUiDay] = useState<number>(worldRef.current.gameState.day)
+  const [uiStats, setUiStats] = useState(toUiStats(worldRef.current.player))
+  const [uiSlots, setUiSlots] = useState<InventorySlots>(() => copySlots(worldRef.current.gameState.inventory))
   const [showCrafting, setShowCrafting] = useState(false) 
   const [activeItem, setActiveItem] = useState<ItemType | null>(null)
-
-  const keysRef = useRef<{ [key: string]: boolean }>({})
+  const [showSaveMenu, setShowSaveMenu] = useState(!boot.slot)
+  const [saveError, setSaveError] = useState<string | null>(boot.error)
+  const [saveSlots, setSaveSlots] = useState<SaveSlotSummary[]>([])
+  const [nameInput, setNameInput] = useState('')
+  const [seedInput, setSeedInput] = useState('')
+  const [passOutLoss, setPassOutLoss] = useState<Inventory | null>(null)
+  const [runSummary, setRunSummary] = useState<RunSummary | null>(null)
+  const [openChest, setOpenChest] = useState<{ x: number, y: number } | null>(null)
+  const [openCampfire, setOpenCampfire] = useState<{ x: number, y: number } | null>(null)
+  const [showControls, setShowControls] = useState(false)
+  const [showJournal, setShowJournal] = useState(false)
+  const [showLog, setShowLog] = useState(false)
+  const [messages, setMessages] = useState<LogMessage[]>([])
+  const [toasts, setToasts] = useState<LogMessage[]>([])
+  const messageIdRef = useRef(0)
+  const dragRef = useRef<{ from: number, split: boolean } | null>(null)
+  // Bumped whenever a save is loaded, so effects can re-attach to the new world
+  const [worldVersion, setWorldVersion] = useState(0)
+  const [bindings, setBindings] = useState<Bindings>(loadBindings)
+  const [rebinding, setRebinding] = useState<{ action: InputAction, slot: number } | null>(null)
+  const hasNotice = !!runSummary || !!passOutLoss
+
+  const inputRef = useRef(createInputState())
+  const particlesRef = useRef(createParticleSystem())
+  const floatingTextRef = useRef(createFloatingTextLayer())
+  const soundRef = useRef(createSoundEngine(worldRef.current.gameState.volume))
+  const [uiVolume, setUiVolume] = useState<VolumeSettings>(worldRef.current.gameState.volume ?? DEFAULT_VOLUME)
+  const terrainCacheRef = useRef<TerrainCache>({ world: null, atlasReady: false, chunks: new Map() })
+
+  const report = (text: string, kind: MessageKind = 'info', toast = false) => {
+    const { gameState } = worldRef.current
+    const message: LogMessage = { id: ++messageIdRef.current, text, kind, stamp: `Day ${gameState.day} ${formatTime(gameState.timeOfDay)}`, count: 1 }
+    setMessages(prev => {
+      const last = prev[prev.length - 1]
+      if (last?.text === text) return [...prev.slice(0, -1), { ...last, stamp: message.stamp, count: last.count + 1 }]
+      return [...prev.slice(1 - MAX_LOG_MESSAGES), message]
+    })
+    if (!toast) return
+    setToasts(prev => [...prev.filter(other => other.text !== text), message])
+    window.setTimeout(() => setToasts(prev => prev.filter(other => other.id !== message.id)), TOAST_MS)
+  }
+  const reportRef = useRef(report)
+  reportRef.current = report
 
   const saveGame = () => {
-    localStorage.setItem(STORAGE_KEY_MAP, JSON.stringify(mapRef.current))
-    localStorage.setItem(STORAGE_KEY_PLAYER, JSON.stringify(playerRef.current))
-    localStorage.setItem(STORAGE_KEY_GAMESTATE, JSON.stringify(gameStateRef.current))
+    const slot = slotRef.current
+    if (!slot) return
+    // Runs from the game loop too, so a failed save is reported rather than thrown
+    try { saveWorld(slot.id, slot.name, worldRef.current) } catch (e) { reportRef.current(`Could not save: ${describeSaveError(e)}`, 'warning', true) }
   }
 
-  const handleRestart = () => {
-    if (confirm("Are you sure you want to restart? All progress will be lost.")) {
-      localStorage.removeItem(STORAGE_KEY_MAP)
-      localStorage.removeItem(STORAGE_KEY_PLAYER)
-      localStorage.removeItem(STORAGE_KEY_GAMESTATE)
-      window.location.reload()
-    }
+  const refreshSaveSlots = () => {
+    try { setSaveSlots(listSaveSlots()) } catch (e) { setSaveError(describeSaveError(e)) }
+  }
+
+  useEffect(() => {
+    if (!showSaveMenu) return
+    try { setSaveSlots(listSaveSlots()) } catch (e) { setSaveError(describeSaveError(e)) }
+  }, [showSaveMenu])
+
+  const applySave = (id: string, doc: SaveDocument) => {
+    worldRef.current = createWorld(doc.map, doc.player, doc.gameState, doc.islands, doc.entities)
+    slotRef.current = { id, name: doc.name }
+    setActiveSlotId(id)
+
+    const { player, gameState } = worldRef.current
+    setUiDay(gameState.day)
+    setUiTime(formatTime(gameState.timeOfDay))
+    setUiStats(toUiStats(player))
+    setUiSlots(copySlots(gameState.inventory))
+    setUiVolume(gameState.volume ?? DEFAULT_VOLUME)
+    setVolume(soundRef.current, gameState.volume ?? DEFAULT_VOLUME)
+    updateAmbience(soundRef.current, gameState)
+    setActiveItem(null)
+    setOpenChest(null)
+    setOpenCampfire(null)
+    setShowJournal(false)
+    clearFloatingText(floatingTextRef.current)
+    setSaveError(null)
+    setShowSaveMenu(false)
+    setWorldVersion(version => version + 1)
+  }
+
+  // Quest rewards land in the bag from inside game code, so the UI is told through the world's events
+  useEffect(() => {
+    const { bus, gameState, player } = worldRef.current
+    const floatAbovePlayer = (text: string) => addFloatingText(floatingTextRef.current, text, Math.round(player.x), Math.round(player.y))
+    const unsubscribers = [
+      subscribe(bus, 'itemGathered', event => floatAbovePlayer(`+${event.amount} ${event.item}`)),
+      subscribe(bus, 'recipeCrafted', event => floatAbovePlayer(`+${event.amount} ${event.item}`)),
+      subscribe(bus, 'itemsLost', event => report(`There was no room for ${event.amount} ${event.item}, so it was lost.`, 'warning', true)),
+      subscribe(bus, 'questCompleted', event => {
+        const quest = QUESTS.find(q => q.id === event.quest)
+        if (!quest) return
+        const reward = formatItems(quest.reward ?? {})
+        report(`Quest complete: ${quest.name}${reward && ` (+${reward})`}`, 'good', true)
+        playSound(soundRef.current, 'craft')
+        setUiSlots(copySlots(gameState.inventory))
+      }),
+      subscribe(bus, 'achievementUnlocked', event => {
+        const achievement = ACHIEVEMENTS.find(a => a.id === event.achievement)
+        if (achievement) report(`Achievement unlocked: ${achievement.name}`, 'good', true)
+      }),
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
+  }, [worldVersion])
+
+  const startNewGame = () => {
+    const seed = seedInput.trim() || randomSeedText()
+    const name = nameInput.trim() || `Island ${seed}`
+    applySave(createSlotId(), createSaveDocument(name, seed))
+    triggerTide(worldRef.current)
+    saveGame()
+    setNameInput('')
+    setSeedInput('')
+  }
+
+  const handleLoadSlot = (id: string) => {
+    try { applySave(id, loadSlot(id)) } catch (e) { setSaveError(describeSaveError(e)) }
+  }
+
+  const handleExportSlot = (id: string) => {
+    try { exportSave(loadSlot(id)) } catch (e) { setSaveError(describeSaveError(e)) }
+  }
+
+  const handleDeleteSlot = (slot: SaveSlotSummary) => {
+    if (!confirm(`Delete "${slot.name}"? This cannot be undone.`)) return
+    deleteSlot(slot.id)
+    if (slotRef.current?.id === slot.id) slotRef.current = null
+    refreshSaveSlots()
+  }
+
+  const handleImportFile = (file: File) => {
+    importSave(file)
+      .then(doc => {
+        const id = createSlotId()
+        writeSlot(id, doc)
+        applySave(id, doc)
+      })
+      .catch(e => setSaveError(describeSaveError(e)))
+  }
+
+  const openSaveMenu = () => {
+    saveGame()
+    setActiveItem(null)
+    setShowCrafting(false)
+    setOpenChest(null)
+    setOpenCampfire(null)
+    setShowSaveMenu(true)
+  }
+
+  const syncUi = () => {
+    const { player, gameState } = worldRef.current
+    setUiStats(toUiStats(player))
+    setUiSlots(copySlots(gameState.inventory))
   }
 
   const handleUseItem = (item: ItemType) => {
@@ -223,20 +434,17 @@ function App() {
       return
     }
 
-    const inventory = gameStateRef.current.inventory
-    const player = playerRef.current
-    
-    if ((inventory[item] || 0) > 0) {
-      const props = ITEM_PROPS[item]
-      
-      if (props?.edible) {
-        player.hunger = Math.min(100, player.hunger + (props.hungerRestore || 10))
-        inventory[item] = (inventory[item] || 0) - 1
-        if (inventory[item] === 0) delete inventory[item]
-        setUiStats({ energy: Math.floor(player.energy), hunger: Math.floor(player.hunger) })
-        setUiInventory({ ...inventory })
-        saveGame()
+    if (countItem(worldRef.current.gameState.inventory, item) > 0) {
+      if (ITEM_PROPS[item]?.edible) {
+        const result = eatItem(worldRef.current, item)
+        if (result.ok) { syncUi(); saveGame() }
+        else report(result.reason, 'warning', true)
       } 
+      else if (ITEM_PROPS[item]?.opens) {
+        const result = openItem(worldRef.current, item)
+        if (result.ok) { syncUi(); saveGame() }
+        else report(result.reason, 'warning', true)
+      }
       else {
         // For Tools and Structures, just set active
         setActiveItem(item)
@@ -245,175 +453,277 @@ function App() {
   }
 
   const handlePlaceItem = () => {
-    if (!activeItem || !ITEM_PROPS[activeItem]?.placeable) return
-
-    const player = playerRef.current
-    const map = mapRef.current
-    const gameState = gameStateRef.current
-    let targetX = Math.round(player.x), targetY = Math.round(player.y)
-    switch (player.facing) {
-      case 'up': targetY -= 1; break;
-      case 'down': targetY += 1; break;
-      case 'left': targetX -= 1; break;
-      case 'right': targetX += 1; break;
-    }
-    if (targetX >= 0 && targetX < MAP_WIDTH && targetY >= 0 && targetY < MAP_HEIGHT) {
-      const tile = map[targetY][targetX]
-      if (tile.type !== TileType.DeepWater && !tile.item && !tile.placedStructure) {
-         tile.placedStructure = activeItem
-         gameState.inventory[activeItem] = (gameState.inventory[activeItem] || 0) - 1
-         if (gameState.inventory[activeItem] === 0) { delete gameState.inventory[activeItem]; setActiveItem(null) }
-         setUiInventory({ ...gameState.inventory })
-         saveGame()
-      } 
+    if (!activeItem) return
+    const target = getFacingTarget(worldRef.current.player)
+    const result = placeItem(worldRef.current, activeItem)
+    if (result.ok) {
+      emitAt(particlesRef.current, 'dust', target.x, target.y)
+      playSound(soundRef.current, 'place')
+      if (!countItem(worldRef.current.gameState.inventory, activeItem)) setActiveItem(null)
+      syncUi()
+      saveGame()
+    } else {
+      report(result.reason, 'warning', true)
     }
   }
 
-  const handleCraft = (recipe: Recipe) => {
-    const inventory = gameStateRef.current.inventory
-    let canCraft = true
-    for (const [item, amount] of Object.entries(recipe.ingredients)) {
-      const currentAmount = inventory[item as ItemType] || 0
-      if (currentAmount < amount) { canCraft = false; break }
-    }
-    if (canCraft) {
-      for (const [item, amount] of Object.entries(recipe.ingredients)) {
-        inventory[item as ItemType] = (inventory[item as ItemType] || 0) - amount
-      }
-      inventory[recipe.result] = (inventory[recipe.result] || 0) + recipe.amount
-      setUiInventory({ ...inventory })
+  const handleTransfer = (item: ItemType, toChest: boolean) => {
+    if (!openChest) return
+    const result = transferStack(worldRef.current, openChest.x, openChest.y, item, toChest)
+    if (result.ok) {
+      if (!countItem(worldRef.current.gameState.inventory, item) && activeItem === item) setActiveItem(null)
+      syncUi()
       saveGame()
+    } else {
+      report(result.reason, 'warning', true)
     }
   }
 
-  const triggerTide = () => {
-    const map = mapRef.current
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
-        const tile = map[y][x]
-        if (tile.type === TileType.Sand) {
-          const player = playerRef.current
-          const isPlayerHere = Math.round(player.x) === x && Math.round(player.y) === y
-          if (!tile.item && !isPlayerHere && !tile.placedStructure) {
-            const roll = Math.random()
-            if (roll < 0.15) tile.item = 'driftwood'
-            else if (roll > 0.88 && roll < 0.98) tile.item = 'metal' 
-            else if (roll > 0.98) tile.item = 'crate' 
-          }
-        }
-      }
+  const handleDropItem = (item: ItemType) => {
+    const target = getFacingTarget(worldRef.current.player)
+    const result = dropItem(worldRef.current, item)
+    if (result.ok) {
+      emitAt(particlesRef.current, 'dust', target.x, target.y)
+      playSound(soundRef.current, 'place')
+      if (activeItem === item && !countItem(worldRef.current.gameState.inventory, item)) setActiveItem(null)
+      syncUi()
+      saveGame()
+    } else {
+      report(result.reason, 'warning', true)
     }
   }
 
-  const checkRegrowth = () => {
-    const map = mapRef.current
-    const currentTotalMinutes = gameStateRef.current.totalMinutes
-    const REGROWTH_TIME = 24 * 60 
-    for (let y = 0; y < MAP_HEIGHT; y++) {
-      for (let x = 0; x < MAP_WIDTH; x++) {
-        const tile = map[y][x]
-        if (tile.item === 'tree_stump' && tile.stumpChoppedAt) {
-          if (currentTotalMinutes - tile.stumpChoppedAt >= REGROWTH_TIME) {
-            tile.item = 'tree'
-            tile.stumpChoppedAt = undefined
-          }
-        }
-      }
-    }
+  // --- Slot Drag & Drop ---
+  // Dragging moves a stack to another slot (Shift splits off half); dropping it on the world sets one down
+
+  const handleSlotDrop = (to: number) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.from === to) return
+    const stack = worldRef.current.gameState.inventory[drag.from]
+    const amount = drag.split && stack ? Math.ceil(stack.count / 2) : undefined
+    const result = moveStack(worldRef.current.gameState, drag.from, to, amount)
+    if (result.ok) { syncUi(); saveGame() }
+    else report(result.reason, 'warning', true)
+  }
+
+  const handleWorldDrop = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    const stack = drag && worldRef.current.gameState.inventory[drag.from]
+    if (stack) handleDropItem(stack.item)
+  }
+
+  const handleTogglePin = (index: number) => {
+    togglePin(worldRef.current.gameState, index)
+    syncUi()
+    saveGame()
+  }
+
+  const handleCook = (recipe: Recipe) => {
+    const result = craft(worldRef.current, recipe)
+    if (result.ok) { playSound(soundRef.current, 'craft'); syncUi(); saveGame() }
+    else report(result.reason, 'warning', true)
+  }
+
+  const handleAddFuel = (item: ItemType) => {
+    if (!openCampfire) return
+    const result = addFuel(worldRef.current, openCampfire.x, openCampfire.y, item)
+    if (result.ok) { syncUi(); saveGame() }
+    else report(result.reason, 'warning', true)
+  }
+
+  const handleRepair = (index: number) => {
+    const result = repairTool(worldRef.current, index)
+    if (result.ok) { syncUi(); saveGame() }
+    else report(result.reason, 'warning', true)
+  }
+
+  // Volume is stored with the save, so each island keeps its own levels
+  const handleVolumeChange = (key: keyof VolumeSettings, level: number) => {
+    const volume = { ...uiVolume, [key]: level }
+    worldRef.current.gameState.volume = volume
+    setVolume(soundRef.current, volume)
+    setUiVolume(volume)
+    saveGame()
   }
 
+  // Browsers keep audio muted until the first key press or click
   useEffect(() => {
-    if (gameStateRef.current.day === 1 && gameStateRef.current.timeOfDay === 8 * 60 && !localStorage.getItem(STORAGE_KEY_MAP)) {
-       triggerTide()
+    const unlockAudio = () => {
+      startAudio(soundRef.current)
+      updateAmbience(soundRef.current, worldRef.current.gameState)
+    }
+    window.addEventListener('keydown', unlockAudio)
+    window.addEventListener('pointerdown', unlockAudio)
+    return () => {
+      window.removeEventListener('keydown', unlockAudio)
+      window.removeEventListener('pointerdown', unlockAudio)
     }
   }, [])
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => { 
-      keysRef.current[e.key] = true 
-      
-      if (e.code === 'KeyE' || e.code === 'Space') {
-        if (activeItem && ITEM_PROPS[activeItem]?.placeable) {
-          handlePlaceItem()
-        } else {
-          handleInteraction()
-        }
+  const handleCraft = (recipe: Recipe) => {
+    const result = craft(worldRef.current, recipe)
+    if (result.ok) { playSound(soundRef.current, 'craft'); syncUi(); saveGame() }
+    else report(result.reason, 'warning', true)
+  }
+
+  // Everything a key, gamepad button or touch button can trigger
+  const handleAction = (action: InputAction) => {
+    if (showSaveMenu || showControls) return
+    if (openChest) {
+      if (action === 'cancel' || action === 'interact') setOpenChest(null)
+      return
+    }
+    if (openCampfire) {
+      if (action === 'cancel' || action === 'interact') setOpenCampfire(null)
+      return
+    }
+    if (showJournal) {
+      if (action === 'cancel' || action === 'journal') setShowJournal(false)
+      return
+    }
+    const slots = worldRef.current.gameState.inventory
+    const hotbar = [...new Set(slots.slice(0, HOTBAR_SIZE).flatMap(stack => stack ? [stack.item] : []))]
+    switch (action) {
+      case 'interact':
+        if (activeItem && ITEM_PROPS[activeItem]?.placeable) handlePlaceItem()
+        else handleInteraction()
+        break
+      case 'craft':
+        setActiveItem(null)
+        setShowCrafting(prev => !prev)
+        break
+      case 'journal':
+        setActiveItem(null)
+        setShowCrafting(false)
+        setShowJournal(true)
+        break
+      case 'log':
+        setShowLog(prev => !prev)
+        break
+      case 'drop':
+        if (activeItem) handleDropItem(activeItem)
+        break
+      case 'cancel':
+        setShowCrafting(false)
+        setActiveItem(null)
+        break
+      case 'hotbarPrev':
+      case 'hotbarNext': {
+        if (hotbar.length === 0) break
+        const current = activeItem ? hotbar.indexOf(activeItem) : -1
+        const next = action === 'hotbarNext' ? current + 1 : (current < 0 ? hotbar.length : current) - 1
+        handleUseItem(hotbar[(next + hotbar.length) % hotbar.length])
+        break
       }
-      
-      if (e.code === 'KeyC') { setActiveItem(null); setShowCrafting(prev => !prev) }
-      if (e.code === 'Escape') { setShowCrafting(false); setActiveItem(null) }
-      if (['1', '2', '3', '4', '5', '6', '7', '8', '9'].includes(e.key)) {
-        const index = parseInt(e.key) - 1
-        const items = Object.keys(gameStateRef.current.inventory) as ItemType[]
-        
-        // Only hotkey tools/structures? Or everything?
-        // Let's keep it simple: 1-9 maps to the "Hotbar" list (Tools/Structures)
-        const tools = items.filter(i => {
-          const cat = ITEM_PROPS[i]?.category;
-          return cat === 'tool' || cat === 'structure';
-        });
-        
-        if (index < tools.length) {
-          handleUseItem(tools[index])
-        }
+      default: {
+        // Number keys go by slot, so they never shift as items come and go
+        const slot = HOTBAR_ACTIONS.indexOf(action)
+        const stack = slot >= 0 ? slots[slot] : null
+        if (stack) handleUseItem(stack.item)
       }
     }
-    const handleKeyUp = (e: KeyboardEvent) => { keysRef.current[e.key] = false }
+  }
+
+  // The render loop outlives renders, so it reaches the latest handler through a ref
+  const handleActionRef = useRef(handleAction)
+  handleActionRef.current = handleAction
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // While rebinding, the controls screen has the keyboard to itself
+      if (showControls) {
+        if (!rebinding && e.code === 'Escape') setShowControls(false)
+        return
+      }
+      if (showSaveMenu) return
+      // Any key takes back control from click-to-move
+      worldRef.current.path = null
+      const action = getBoundAction(bindings, e.code)
+      if (!action) return
+      if (!openChest && !openCampfire && !showJournal) inputRef.current.keys.add(action)
+      handleActionRef.current(action)
+    }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const action = getBoundAction(bindings, e.code)
+      if (action) inputRef.current.keys.delete(action)
+    }
     window.addEventListener('keydown', handleKeyDown)
     window.addEventListener('keyup', handleKeyUp)
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('keyup', handleKeyUp)
     }
-  }, [activeItem]) 
-
-  const handleInteraction = () => {
-    const player = playerRef.current
-    const map = mapRef.current
-    const gameState = gameStateRef.current
+  }, [activeItem, showSaveMenu, openChest, openCampfire, showJournal, showControls, rebinding, bindings])
 
-    if (player.energy <= 0 || player.isResting) return
+  useEffect(() => {
+    if (!rebinding) return
+    const captureKey = (e: KeyboardEvent) => {
+      e.preventDefault()
+      setRebinding(null)
+      if (e.code === 'Escape') return
+      const next = e.code === 'Backspace'
+        ? clearBinding(bindings, rebinding.action, rebinding.slot)
+        : rebind(bindings, rebinding.action, rebinding.slot, e.code)
+      saveBindings(next)
+      setBindings(next)
+    }
+    window.addEventListener('keydown', captureKey)
+    return () => window.removeEventListener('keydown', captureKey)
+  }, [rebinding, bindings])
+
+  // Click a tile to walk there, or click something to walk up to it and use it
+  const handleCanvasClick = (e: ReactMouseEvent<HTMLCanvasElement>) => {
+    const camera = cameraRef.current
+    const x = Math.floor((e.clientX + camera.x) / TILE_SIZE)
+    const y = Math.floor((e.clientY + camera.y) / TILE_SIZE)
+    if (!planPath(worldRef.current, x, y)) report("Can't find a way there.", 'warning', true)
+  }
 
-    let targetX = Math.round(player.x)
-    let targetY = Math.round(player.y)
+  const openControls = () => {
+    releaseAll(inputRef.current)
+    setShowCrafting(false)
+    setShowControls(true)
+  }
 
-    switch (player.facing) {
-      case 'up': targetY -= 1; break;
-      case 'down': targetY += 1; break;
-      case 'left': targetX -= 1; break;
-      case 'right': targetX += 1; break;
-    }
-    
-    if (targetX >= 0 && targetX < MAP_WIDTH && targetY >= 0 && targetY < MAP_HEIGHT) {
-      const tile = map[targetY][targetX]
-      
-      if (tile.item) {
-        if (tile.item === 'tree') {
-           // REQUIRE AXE EQUIPPED
-           if (activeItem === 'axe') {
-             tile.item = 'tree_stump' 
-             tile.stumpChoppedAt = gameState.totalMinutes 
-             gameState.inventory['wood'] = (gameState.inventory['wood'] || 0) + 3 
-             gameState.inventory['coconut'] = (gameState.inventory['coconut'] || 0) + 1 
-             player.energy = Math.max(0, player.energy - 10) 
-           } else {
-             console.log("You must equip an axe to chop this tree.")
-             return 
-           }
-        } 
-        else if (tile.item !== 'tree_stump') { 
-          const item = tile.item
-          tile.item = undefined 
-          gameState.inventory[item] = (gameState.inventory[item] || 0) + 1
-          player.energy = Math.max(0, player.energy - 5)
-        }
+  const handleResetBindings = () => {
+    setRebinding(null)
+    setBindings(resetBindings())
+  }
 
-        setUiInventory({ ...gameState.inventory })
-        setUiStats({ energy: Math.floor(player.energy), hunger: Math.floor(player.hunger) })
-        saveGame() 
+  const handleInteraction = () => {
+    const target = getFacingTarget(worldRef.current.player)
+    const tile = isInBounds(target.x, target.y) ? worldRef.current.map[target.y][target.x] : null
+    const before = tile?.item
+    const structure = tile?.placedStructure
+    const result = interact(worldRef.current, activeItem)
+    if (result.ok) {
+      const effect = before && INTERACT_EFFECTS[before]
+      if (effect) {
+        emitAt(particlesRef.current, effect.particles, target.x, target.y)
+        playSound(soundRef.current, effect.sound)
+      } else if (structure && !tile.placedStructure) {
+        emitAt(particlesRef.current, 'dust', target.x, target.y)
+        playSound(soundRef.current, 'place')
+      } else if (before && result.gained) {
+        emitAt(particlesRef.current, 'pickup', target.x, target.y)
+        playSound(soundRef.current, 'pickup')
+      }
+      if (result.container) { releaseAll(inputRef.current); setOpenChest(result.container) }
+      if (result.cooking) { releaseAll(inputRef.current); setOpenCampfire(result.cooking) }
+      if (result.broken) {
+        report(`Your ${result.broken} broke!`, 'warning', true)
+        if (activeItem === result.broken && !countItem(worldRef.current.gameState.inventory, result.broken)) setActiveItem(null)
       }
+      syncUi()
+      saveGame() 
+    } else {
+      report(result.reason, 'warning', true)
     }
   }
+  const handleInteractionRef = useRef(handleInteraction)
+  handleInteractionRef.current = handleInteraction
 
   useEffect(() => {
     const canvas = canvasRef.current
@@ -427,6 +737,8 @@ function App() {
     }
     window.addEventListener('resize', resizeCanvas)
     resizeCanvas()
+    // Procedural drawings stand in until the sprite atlas is ready
+    loadAtlas()
 
     let animationFrameId: number
 
@@ -441,97 +753,89 @@ function App() {
 
     const update = (deltaTime: number) => {
       animRef.current += deltaTime * 0.002
-      if (showCrafting) { lastTimeRef.current = performance.now(); return }
+      // Polled even while paused so the pad can close menus
+      for (const action of pollGamepad(inputRef.current)) handleActionRef.current(action)
+      if (showCrafting || showSaveMenu || showControls || showJournal || hasNotice || openChest || openCampfire) { lastTimeRef.current = performance.now(); return }
 
-      const player = playerRef.current
-      const map = mapRef.current
-      const gameState = gameStateRef.current
+      const world = worldRef.current
+      const player = world.player
 
       saveTimerRef.current += deltaTime
       if (saveTimerRef.current > 5000) { saveGame(); saveTimerRef.current = 0 }
 
-      if (keysRef.current['r'] || keysRef.current['R']) player.isResting = true
-      else player.isResting = false
-
-      regenTimerRef.current += deltaTime
-      if (regenTimerRef.current >= 100) { 
-        regenTimerRef.current = 0
-        if (player.isResting) {
-           player.energy = Math.min(100, player.energy + 1.0) 
-           if (player.energy < 100) player.hunger = Math.max(0, player.hunger - 0.05) 
-        } else if (!player.isMoving && player.hunger > 50) {
-           player.energy = Math.min(100, player.energy + 0.05) 
-        }
-        setUiStats({ energy: Math.floor(player.energy), hunger: Math.floor(player.hunger) })
-      }
-
-      let timeDelta = deltaTime
-      if (player.isResting) timeDelta *= 20 
-      
-      timeAccumulatorRef.current += timeDelta
-      const msPerGameMin = REAL_SEC_PER_GAME_MIN * 1000
-      if (timeAccumulatorRef.current >= msPerGameMin) {
-        const minutesToAdd = Math.floor(timeAccumulatorRef.current / msPerGameMin)
-        gameState.timeOfDay += minutesToAdd
-        if (!gameState.totalMinutes) gameState.totalMinutes = (gameState.day * GAME_MINS_PER_DAY) + gameState.timeOfDay
-        gameState.totalMinutes += minutesToAdd
-        timeAccumulatorRef.current %= msPerGameMin
-        if (gameState.timeOfDay % 20 === 0) { player.hunger = Math.max(0, player.hunger - 1); checkRegrowth() }
-        if (gameState.timeOfDay >= GAME_MINS_PER_DAY) {
-          gameState.timeOfDay -= GAME_MINS_PER_DAY
-          gameState.day += 1
-          setUiDay(gameState.day)
-          triggerTide()
-          saveGame() 
-        }
-        setUiTime(formatTime(gameState.timeOfDay))
-      }
-
-      const currentTileX = Math.round(player.x)
-      const currentTileY = Math.round(player.y)
-      const safeX = Math.max(0, Math.min(currentTileX, MAP_WIDTH - 1))
-      const safeY = Math.max(0, Math.min(currentTileY, MAP_HEIGHT - 1))
-      const currentTile = map[safeY][safeX]
-
-      let BASE_SPEED = 0.03 
-      if (player.energy <= 0) BASE_SPEED *= 0.5
-      let currentSpeed = BASE_SPEED
-      if (currentTile.type === TileType.ShallowWater) currentSpeed = BASE_SPEED * 0.5
-      
-      if (player.isMoving) {
-        const dx = player.targetX - player.x
-        const dy = player.targetY - player.y
-        if (Math.abs(dx) > currentSpeed) player.x += Math.sign(dx) * currentSpeed
-        else player.x = player.targetX
-        if (Math.abs(dy) > currentSpeed) player.y += Math.sign(dy) * currentSpeed
-        else player.y = player.targetY
-
-        if (player.x === player.targetX && player.y === player.targetY) {
-          player.isMoving = false
-          player.energy = Math.max(0, player.energy - 0.1)
-        }
-      } else if (!player.isResting) { 
-        let nextX = player.x
-        let nextY = player.y
-        let intent = false
-        if (keysRef.current['w'] || keysRef.current['ArrowUp']) { nextY -= 1; player.facing = 'up'; intent = true }
-        else if (keysRef.current['s'] || keysRef.current['ArrowDown']) { nextY += 1; player.facing = 'down'; intent = true }
-        else if (keysRef.current['a'] || keysRef.current['ArrowLeft']) { nextX -= 1; player.facing = 'left'; intent = true }
-        else if (keysRef.current['d'] || keysRef.current['ArrowRight']) { nextX += 1; player.facing = 'right'; intent = true }
-
-        if (intent) {
-          if (nextX >= 0 && nextX < MAP_WIDTH && nextY >= 0 && nextY < MAP_HEIGHT) {
-            const targetTile = map[nextY][nextX]
-            const isSolid = targetTile.type === TileType.DeepWater || !!targetTile.item || !!targetTile.placedStructure
-            if (!isSolid) {
-              player.targetX = nextX
-              player.targetY = nextY
-              player.isMoving = true
-            }
+      updateParticles(particlesRef.current, deltaTime)
+      updateFloatingText(floatingTextRef.current, deltaTime)
+
+      // Clamp so a backgrounded tab doesn't replay minutes of ticks at once
+      const input = inputRef.current
+      const events = simulate(world, { move: readMove(input), rest: isHeld(input, 'rest') }, Math.min(deltaTime, 250))
+      for (const event of events) {
+        switch (event.type) {
+          case 'statsChanged':
+            setUiStats(toUiStats(player))
+            break
+          case 'minutePassed':
+            setUiTime(formatTime(world.gameState.timeOfDay))
+            updateAmbience(soundRef.current, world.gameState)
+            break
+          case 'dayStarted':
+            setUiDay(event.day)
+            report(`Day ${event.day} begins.`)
+            saveGame()
+            break
+          case 'passedOut':
+            setPassOutLoss(event.lost)
+            report('You passed out from exhaustion.', 'warning')
+            setUiSlots(copySlots(world.gameState.inventory))
+            setUiTime(formatTime(world.gameState.timeOfDay))
+            saveGame()
+            break
+          case 'knockedOut':
+            setRunSummary(event.summary)
+            report('You were knocked out and washed up back home.', 'warning')
+            setActiveItem(null)
+            setUiSlots(copySlots(world.gameState.inventory))
+            setUiStats(toUiStats(player))
+            saveGame()
+            break
+          case 'fishEscaped':
+            report('It got away.', 'warning', true)
+            break
+          case 'islandChanged':
+            clearParticles(particlesRef.current)
+            clearFloatingText(floatingTextRef.current)
+            saveGame()
+            break
+          case 'stepped': {
+            const type = world.map[event.y][event.x].type
+            if (player.onRaft || type === TileType.ShallowWater) emitAt(particlesRef.current, 'splash', event.x, event.y)
+            playSound(soundRef.current, STEP_SOUNDS[type])
+            break
           }
+          case 'pathArrived':
+            // Walking to a tile works it but never places the held item there
+            handleInteractionRef.current()
+            break
+          case 'tideArrived':
+            for (const { x, y } of event.washedUp) emitAt(particlesRef.current, 'sparkle', x, y)
+            if (event.washedUp.length > 0) playSound(soundRef.current, 'tide')
+            report(event.washedUp.length > 0 ? `The tide came in and washed up ${event.washedUp.length} new finds.` : 'The tide came in.', 'info', true)
+            break
+          case 'foodSpoiled':
+            report(`Rotted away: ${formatItems(event.lost)}`, 'warning', true)
+            setUiSlots(copySlots(world.gameState.inventory))
+            break
+          case 'lootStolen':
+            emitAt(particlesRef.current, 'dust', event.x, event.y)
+            addFloatingText(floatingTextRef.current, `-1 ${event.item}`, event.x, event.y, '#e57373')
+            report(`A gull made off with your ${event.item}.`, 'warning', true)
+            break
+          case 'hungerLow':
+            report(event.hunger > 0 ? 'You are getting hungry.' : 'You are starving and losing health!', 'warning', true)
+            break
         }
       }
-      
+
       const canvasWidth = canvas.width
       const canvasHeight = canvas.height
       const playerPixelX = player.x * TILE_SIZE
@@ -551,9 +855,7 @@ function App() {
 
     const render = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
       const camera = cameraRef.current
-      const map = mapRef.current
-      const player = playerRef.current
-      const gameState = gameStateRef.current
+      const { map, player, gameState } = worldRef.current
       const time = animRef.current
 
       ctx.fillStyle = '#000'
@@ -569,181 +871,109 @@ function App() {
       const renderStartRow = Math.max(0, startRow)
       const renderEndRow = Math.min(MAP_HEIGHT, endRow)
 
+      // Static terrain comes from cached chunk canvases, rebuilt only when a chunk changes
+      const world = worldRef.current
+      const chunkPixels = CHUNK_SIZE * TILE_SIZE
+      for (let cy = Math.floor(renderStartRow / CHUNK_SIZE); cy * CHUNK_SIZE < renderEndRow; cy++) {
+        for (let cx = Math.floor(renderStartCol / CHUNK_SIZE); cx * CHUNK_SIZE < renderEndCol; cx++) {
+          const chunk = getTerrainChunk(terrainCacheRef.current, world, cx, cy)
+          ctx.drawImage(chunk, Math.floor(cx * chunkPixels - camera.x), Math.floor(cy * chunkPixels - camera.y))
+        }
+      }
+
+      // Waves move every frame, so they are batched into one path on top
+      ctx.strokeStyle = 'rgba(255,255,255,0.2)'
+      ctx.lineWidth = 2
+      ctx.beginPath()
       for (let y = renderStartRow; y < renderEndRow; y++) {
         for (let x = renderStartCol; x < renderEndCol; x++) {
-          const tile = map[y][x]
+          const type = map[y][x].type
+          if (type !== TileType.ShallowWater && type !== TileType.DeepWater) continue
+          const waveOffset = Math.sin(time + x + y) * 5
           const drawX = Math.floor(x * TILE_SIZE - camera.x)
           const drawY = Math.floor(y * TILE_SIZE - camera.y)
+          ctx.moveTo(drawX + 10, drawY + 32 + waveOffset)
+          ctx.lineTo(drawX + 54, drawY + 32 + waveOffset)
+        }
+      }
+      ctx.stroke()
 
-          ctx.fillStyle = TILE_COLORS[tile.type]
-          ctx.fillRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
-
-          // Terrain Blending
-          {
-            const currentLayer = TILE_LAYER_ORDER[tile.type]
-            const overlapSize = 12
-            const edgeSeed = (x * 11 + y * 17)
-
-            const drawBlend = (nx: number, ny: number, direction: 'up'|'down'|'left'|'right') => {
-               if (nx < 0 || nx >= MAP_WIDTH || ny < 0 || ny >= MAP_HEIGHT) return
-               const neighbor = map[ny][nx]
-               if (TILE_LAYER_ORDER[neighbor.type] > currentLayer) {
-                 ctx.fillStyle = TILE_COLORS[neighbor.type]
-                 if (direction === 'up') { 
-                    for (let i=0; i<TILE_SIZE; i+=4) {
-                       const h = overlapSize + (Math.sin(x*10 + i + edgeSeed) * 4)
-                       ctx.fillRect(drawX + i, drawY, 4, h)
-                    }
-                 }
-                 else if (direction === 'down') { 
-                    for (let i=0; i<TILE_SIZE; i+=4) {
-                       const h = overlapSize + (Math.sin(x*10 + i + edgeSeed) * 4)
-                       ctx.fillRect(drawX + i, drawY + TILE_SIZE - h, 4, h)
-                    }
-                 }
-                 else if (direction === 'left') { 
-                    for (let i=0; i<TILE_SIZE; i+=4) {
-                       const w = overlapSize + (Math.sin(y*10 + i + edgeSeed) * 4)
-                       ctx.fillRect(drawX, drawY + i, w, 4)
-                    }
-                 }
-                 else if (direction === 'right') { 
-                    for (let i=0; i<TILE_SIZE; i+=4) {
-                       const w = overlapSize + (Math.sin(y*10 + i + edgeSeed) * 4)
-                       ctx.fillRect(drawX + TILE_SIZE - w, drawY + i, w, 4)
-                    }
-                 }
-               }
-            }
-            drawBlend(x, y-1, 'up')
-            drawBlend(x, y+1, 'down')
-            drawBlend(x-1, y, 'left')
-            drawBlend(x+1, y, 'right')
-          }
+      const fires: { drawX: number, drawY: number }[] = [] // Lit on top of the night overlay
+      for (let y = renderStartRow; y < renderEndRow; y++) {
+        for (let x = renderStartCol; x < renderEndCol; x++) {
+          const tile = map[y][x]
+          const drawX = Math.floor(x * TILE_SIZE - camera.x)
+          const drawY = Math.floor(y * TILE_SIZE - camera.y)
 
-          // Procedural Details
-          {
-            const seed = (x * 1313 + y * 3737 + (tile.variant||0) * 1000)
-            if (tile.type === TileType.Grass) {
-              ctx.fillStyle = '#7bc06b' 
-              const tuftCount = Math.floor((seed % 3) + 1)
-              for (let i=0; i<tuftCount; i++) {
-                 const tx = (seed * (i+1) * 37) % (TILE_SIZE-4)
-                 const ty = (seed * (i+1) * 73) % (TILE_SIZE-4)
-                 ctx.fillRect(drawX + tx, drawY + ty, 4, 4)
-              }
-            }
-            else if (tile.type === TileType.ShallowWater || tile.type === TileType.DeepWater) {
-              ctx.strokeStyle = 'rgba(255,255,255,0.2)'
-              ctx.lineWidth = 2
-              const waveOffset = Math.sin(time + x + y) * 5
-              ctx.beginPath()
-              ctx.moveTo(drawX + 10, drawY + 32 + waveOffset)
-              ctx.lineTo(drawX + 54, drawY + 32 + waveOffset)
-              ctx.stroke()
-            }
-            else if (tile.type === TileType.Sand) {
-              ctx.fillStyle = '#e0d0a0'
-              for (let i=0; i<5; i++) {
-                 const tx = (seed * (i+1) * 19) % (TILE_SIZE-2)
-                 const ty = (seed * (i+1) * 47) % (TILE_SIZE-2)
-                 ctx.fillRect(drawX + tx, drawY + ty, 2, 2)
-              }
-            }
-          }
-          
-          if (tile.placedStructure) {
-             if (tile.placedStructure === 'wall_wood') {
-               ctx.fillStyle = '#6d4c41' 
-               const wallW = TILE_SIZE * 0.4
-               const wallOffset = (TILE_SIZE - wallW) / 2
-               ctx.fillRect(drawX + wallOffset, drawY + wallOffset, wallW, wallW)
-               ctx.fillStyle = '#6d4c41'
-               const cx = drawX + TILE_SIZE/2
-               const cy = drawY + TILE_SIZE/2
-               const half = TILE_SIZE/2
-               const nUp = (y>0 && map[y-1][x].placedStructure === 'wall_wood')
-               const nDown = (y<MAP_HEIGHT-1 && map[y+1][x].placedStructure === 'wall_wood')
-               const nLeft = (x>0 && map[y][x-1].placedStructure === 'wall_wood')
-               const nRight = (x<MAP_WIDTH-1 && map[y][x+1].placedStructure === 'wall_wood')
-               const beamThick = 10
-               if (nUp) ctx.fillRect(cx - beamThick/2, drawY, beamThick, half)
-               if (nDown) ctx.fillRect(cx - beamThick/2, cy, beamThick, half)
-               if (nLeft) ctx.fillRect(drawX, cy - beamThick/2, half, beamThick)
-               if (nRight) ctx.fillRect(cx, cy - beamThick/2, half, beamThick)
-               ctx.fillStyle = '#5d4037'
-               ctx.fillRect(drawX + wallOffset, drawY + wallOffset, wallW, wallW * 0.5) 
-             }
+          // Farm Plots
+          if (tile.tilled) {
+            const watered = !!tile.crop && isWateredToday(tile.crop, gameState.day)
+            ctx.fillStyle = watered ? '#5d4037' : '#8d6e63'
+            drawRoundedRect(ctx, drawX + 4, drawY + 4, TILE_SIZE - 8, TILE_SIZE - 8, 6)
+            ctx.fillStyle = 'rgba(0,0,0,0.15)'
+            for (let i = 0; i < 3; i++) ctx.fillRect(drawX + 10, drawY + 14 + i * 16, TILE_SIZE - 20, 3)
           }
 
-          if (tile.item) {
+          if (tile.crop) {
             const cx = drawX + TILE_SIZE / 2
             const cy = drawY + TILE_SIZE / 2
-            const seed = (x * 1313 + y * 3737)
-
-            if (tile.item === 'driftwood') {
-              ctx.save()
-              ctx.translate(cx, cy)
-              ctx.rotate(seed % 3)
-              ctx.fillStyle = '#8d6e63'
-              drawRoundedRect(ctx, -12, -6, 24, 12, 4)
-              ctx.restore()
+            const stage = getCropStage(tile.crop)
+            if (tile.crop.withered) {
+              ctx.strokeStyle = '#8d7b5a'
+              ctx.lineWidth = 3
+              ctx.beginPath(); ctx.moveTo(cx, cy + 14); ctx.quadraticCurveTo(cx, cy - 4, cx + 12, cy + 4); ctx.stroke()
             } 
-            else if (tile.item === 'metal') {
-              ctx.fillStyle = '#b0bec5'
-              ctx.beginPath()
-              ctx.moveTo(cx - 10, cy + 10)
-              ctx.lineTo(cx, cy - 12)
-              ctx.lineTo(cx + 12, cy + 5)
-              ctx.closePath()
-              ctx.fill()
-              ctx.strokeStyle = '#78909c'; ctx.stroke()
+            else if (stage === 0) {
+              ctx.fillStyle = '#d7ccc8'
+              for (let i = -1; i <= 1; i++) { ctx.beginPath(); ctx.arc(cx + i * 10, cy + (i % 2) * 4, 3, 0, Math.PI * 2); ctx.fill() }
             } 
-            else if (tile.item === 'crate') {
-              ctx.fillStyle = '#a1887f'
-              drawRoundedRect(ctx, cx - 16, cy - 16, 32, 32, 4)
-              ctx.strokeStyle = '#5d4037'
-              ctx.lineWidth = 2
-              ctx.strokeRect(cx - 16, cy - 16, 32, 32)
-              ctx.beginPath()
-              ctx.moveTo(cx - 16, cy - 16); ctx.lineTo(cx + 16, cy + 16)
-              ctx.moveTo(cx + 16, cy - 16); ctx.lineTo(cx - 16, cy + 16)
-              ctx.stroke()
+            else if (stage < CROP_STAGES - 1) {
+              const size = stage * 6
+              ctx.fillStyle = stage === 1 ? '#9ccc65' : '#7cb342'
+              ctx.fillRect(cx - 1, cy, 3, 12)
+              ctx.beginPath(); ctx.ellipse(cx - size / 2, cy, size / 2 + 2, 4, -0.5, 0, Math.PI * 2); ctx.fill()
+              ctx.beginPath(); ctx.ellipse(cx + size / 2, cy, size / 2 + 2, 4, 0.5, 0, Math.PI * 2); ctx.fill()
             } 
-            else if (tile.item === 'tree') {
-              ctx.fillStyle = 'rgba(0,0,0,0.2)'
-              ctx.beginPath(); ctx.ellipse(cx, cy + 24, 16, 8, 0, 0, Math.PI * 2); ctx.fill()
-              ctx.fillStyle = '#795548'
-              ctx.fillRect(cx - 6, cy, 12, 24)
-              ctx.fillStyle = '#66bb6a' 
-              ctx.beginPath(); ctx.arc(cx, cy - 10, 24, 0, Math.PI * 2); ctx.fill()
-              ctx.fillStyle = '#4caf50' 
-              ctx.beginPath(); ctx.arc(cx - 8, cy - 14, 18, 0, Math.PI * 2); ctx.fill()
+            else if (tile.crop.type === 'carrot') {
+              ctx.fillStyle = '#ff9800'
+              ctx.beginPath(); ctx.moveTo(cx - 7, cy + 2); ctx.lineTo(cx + 7, cy + 2); ctx.lineTo(cx, cy + 20); ctx.closePath(); ctx.fill()
+              ctx.fillStyle = '#558b2f'
+              ctx.beginPath(); ctx.ellipse(cx - 5, cy - 6, 4, 10, -0.3, 0, Math.PI * 2); ctx.fill()
+              ctx.beginPath(); ctx.ellipse(cx + 5, cy - 6, 4, 10, 0.3, 0, Math.PI * 2); ctx.fill()
             } 
-            else if (tile.item === 'tree_stump') {
-              ctx.fillStyle = '#795548'
-              drawRoundedRect(ctx, cx - 8, cy + 8, 16, 16, 4)
-              ctx.fillStyle = '#a1887f' 
-              ctx.beginPath(); ctx.arc(cx, cy + 16, 5, 0, Math.PI * 2); ctx.fill()
+            else {
+              ctx.fillStyle = '#558b2f'
+              ctx.beginPath(); ctx.arc(cx, cy + 4, 16, 0, Math.PI * 2); ctx.fill()
+              ctx.strokeStyle = '#33691e'
+              ctx.lineWidth = 2
+              for (let i = -1; i <= 1; i++) { ctx.beginPath(); ctx.ellipse(cx + i * 6, cy + 4, 2, 14, 0, 0, Math.PI * 2); ctx.stroke() }
             }
           }
+
+          if (tile.placedStructure) {
+             const lit = isBurning(tile, gameState.totalMinutes)
+             if (lit) fires.push({ drawX, drawY })
+             drawStructure(ctx, tile.placedStructure, { map, x, y, drawX, drawY, time, lit })
+             if (tile.structureDamage) {
+               const hp = ITEM_PROPS[tile.placedStructure]?.hp || 1
+               ctx.fillStyle = 'rgba(0,0,0,0.5)'
+               ctx.fillRect(drawX + 8, drawY + 4, TILE_SIZE - 16, 5)
+               ctx.fillStyle = '#e57373'
+               ctx.fillRect(drawX + 8, drawY + 4, (TILE_SIZE - 16) * (1 - tile.structureDamage / hp), 5)
+             }
+          }
+
+          if (tile.item) drawItem(ctx, tile.item, { map, x, y, drawX, drawY, time })
         }
       }
 
       // Ghost Preview
       if (activeItem && ITEM_PROPS[activeItem]?.placeable) {
-        let targetX = Math.round(player.x)
-        let targetY = Math.round(player.y)
-        switch (player.facing) {
-          case 'up': targetY -= 1; break;
-          case 'down': targetY += 1; break;
-          case 'left': targetX -= 1; break;
-          case 'right': targetX += 1; break;
-        }
+        const target = getFacingTarget(player)
         
-        if (targetX >= 0 && targetX < MAP_WIDTH && targetY >= 0 && targetY < MAP_HEIGHT) {
-          const drawX = Math.floor(targetX * TILE_SIZE - camera.x)
-          const drawY = Math.floor(targetY * TILE_SIZE - camera.y)
+        if (isInBounds(target.x, target.y)) {
+          const drawX = Math.floor(target.x * TILE_SIZE - camera.x)
+          const drawY = Math.floor(target.y * TILE_SIZE - camera.y)
           
           ctx.globalAlpha = 0.5
           {
@@ -752,13 +982,45 @@ function App() {
           }
           ctx.globalAlpha = 1.0
           
-          const tile = map[targetY][targetX]
-          const valid = tile.type !== TileType.DeepWater && !tile.item && !tile.placedStructure
+          const valid = canPlaceAt(worldRef.current, target.x, target.y)
           ctx.strokeStyle = valid ? 'lime' : 'red'
           ctx.lineWidth = 2
           ctx.strokeRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
         }
       }
+      // Remove Preview
+      else if (activeItem === 'hammer') {
+        const target = getFacingTarget(player)
+        if (isInBounds(target.x, target.y) && map[target.y][target.x].placedStructure) {
+          const drawX = Math.floor(target.x * TILE_SIZE - camera.x)
+          const drawY = Math.floor(target.y * TILE_SIZE - camera.y)
+          ctx.fillStyle = 'rgba(211, 47, 47, 0.25)'
+          ctx.fillRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
+          ctx.strokeStyle = '#d32f2f'
+          ctx.lineWidth = 2
+          ctx.setLineDash([6, 4])
+          ctx.strokeRect(drawX, drawY, TILE_SIZE, TILE_SIZE)
+          ctx.setLineDash([])
+          ctx.beginPath()
+          ctx.moveTo(drawX + 20, drawY + 20); ctx.lineTo(drawX + TILE_SIZE - 20, drawY + TILE_SIZE - 20)
+          ctx.moveTo(drawX + TILE_SIZE - 20, drawY + 20); ctx.lineTo(drawX + 20, drawY + TILE_SIZE - 20)
+          ctx.stroke()
+        }
+      }
+
+      // Planned Route
+      const path = worldRef.current.path
+      if (path) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.35)'
+        for (const step of path.steps) {
+          ctx.beginPath(); ctx.arc(step.x * TILE_SIZE - camera.x + TILE_SIZE / 2, step.y * TILE_SIZE - camera.y + TILE_SIZE / 2, 5, 0, Math.PI * 2); ctx.fill()
+        }
+        if (path.target) {
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)'
+          ctx.lineWidth = 2
+          ctx.strokeRect(path.target.x * TILE_SIZE - camera.x + 4, path.target.y * TILE_SIZE - camera.y + 4, TILE_SIZE - 8, TILE_SIZE - 8)
+        }
+      }
 
       const playerX = Math.floor(player.x * TILE_SIZE - camera.x)
       const playerY = Math.floor(player.y * TILE_SIZE - camera.y)
@@ -766,37 +1028,91 @@ function App() {
       const pcy = playerY + TILE_SIZE / 2
       
       // --- Draw Player ---
-      {
-        ctx.fillStyle = 'rgba(0,0,0,0.2)'
-        ctx.beginPath(); ctx.ellipse(pcx, pcy + 24, 16, 8, 0, 0, Math.PI*2); ctx.fill();
-        ctx.fillStyle = '#ff7043' 
-        drawRoundedRect(ctx, pcx - 14, pcy - 10, 28, 36, 8)
-        ctx.fillStyle = '#ffcc80' 
-        drawRoundedRect(ctx, pcx - 14, pcy - 32, 28, 26, 8)
-        ctx.fillStyle = '#3e2723'
-        let eyeOffsetX = 0, eyeOffsetY = 0
-        if (player.facing === 'left') eyeOffsetX = -6
-        if (player.facing === 'right') eyeOffsetX = 6
-        if (player.facing === 'up') eyeOffsetY = -4
-        if (player.facing === 'down') eyeOffsetY = 0
-        if (player.facing !== 'up') {
-          ctx.beginPath(); ctx.arc(pcx - 6 + eyeOffsetX, pcy - 24 + eyeOffsetY, 3, 0, Math.PI*2); ctx.fill();
-          ctx.beginPath(); ctx.arc(pcx + 6 + eyeOffsetX, pcy - 24 + eyeOffsetY, 3, 0, Math.PI*2); ctx.fill();
-        }
+      drawPlayer(ctx, player, playerX, playerY, time)
+
+      // Wildlife after the player so gulls fly over them
+      for (const entity of worldRef.current.entities) {
+        drawEntity(ctx, entity, Math.floor(entity.x * TILE_SIZE - camera.x), Math.floor(entity.y * TILE_SIZE - camera.y), time)
       }
       
+      // --- Fishing Line ---
+      if (worldRef.current.fishing) {
+        const fishing = worldRef.current.fishing
+        const biting = fishing.phase === 'bite'
+        const bobX = Math.floor(fishing.x * TILE_SIZE - camera.x) + TILE_SIZE / 2
+        const bobY = Math.floor(fishing.y * TILE_SIZE - camera.y) + TILE_SIZE / 2 + (biting ? 6 : Math.sin(time * 3) * 2)
+        ctx.strokeStyle = 'rgba(255,255,255,0.7)'
+        ctx.lineWidth = 1
+        ctx.beginPath(); ctx.moveTo(pcx + 14, pcy - 4); ctx.lineTo(bobX, bobY); ctx.stroke()
+        ctx.fillStyle = '#e53935'
+        ctx.beginPath(); ctx.arc(bobX, bobY, 5, Math.PI, Math.PI * 2); ctx.fill()
+        ctx.fillStyle = 'white'
+        ctx.beginPath(); ctx.arc(bobX, bobY, 5, 0, Math.PI); ctx.fill()
+        if (biting) {
+          ctx.fillStyle = '#ffeb3b'
+          ctx.font = 'bold 28px monospace'
+          ctx.fillText('!', pcx - 6, pcy - 40)
+        }
+      }
+
+      drawParticles(ctx, particlesRef.current, camera)
+      drawFloatingText(ctx, floatingTextRef.current, camera)
+
       if (player.isResting) {
         ctx.fillStyle = 'white'
         ctx.font = '20px monospace'
         ctx.fillText('Zzz (20x Speed)', playerX + TILE_SIZE, playerY)
       }
 
+      // --- Weather Overlay ---
+      const weather = getTodaysWeather(gameState)
+      if (weather === 'fog') {
+        const fog = ctx.createRadialGradient(pcx, pcy, TILE_SIZE, pcx, pcy, TILE_SIZE * 5)
+        fog.addColorStop(0, 'rgba(220, 225, 230, 0.1)')
+        fog.addColorStop(1, 'rgba(220, 225, 230, 0.85)')
+        ctx.fillStyle = fog
+        ctx.fillRect(0, 0, canvas.width, canvas.height)
+      }
+      if (weather === 'rain' || weather === 'storm') {
+        const storm = weather === 'storm'
+        ctx.fillStyle = storm ? 'rgba(20, 30, 50, 0.35)' : 'rgba(40, 60, 90, 0.15)'
+        ctx.fillRect(0, 0, canvas.width, canvas.height)
+        ctx.strokeStyle = 'rgba(180, 200, 230, 0.5)'
+        ctx.lineWidth = 1
+        ctx.beginPath()
+        const drops = storm ? 300 : 150
+        const slant = storm ? 12 : 4
+        for (let i = 0; i < drops; i++) {
+          const dropX = ((i * 7919) % canvas.width + time * 60 * slant) % canvas.width
+          const dropY = ((i * 104729) % canvas.height + time * 900) % canvas.height
+          ctx.moveTo(dropX, dropY)
+          ctx.lineTo(dropX + slant, dropY + 18)
+        }
+        ctx.stroke()
+        // Brief lightning flash every few seconds
+        if (storm && Math.sin(time * 1.7) > 0.995) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.6)'
+          ctx.fillRect(0, 0, canvas.width, canvas.height)
+        }
+      }
+
       const distFromNoon = Math.abs(gameState.timeOfDay - NOON_MINUTES)
       const maxDarkness = 0.8
       const alpha = (distFromNoon / 720) * maxDarkness
       if (alpha > 0) {
         ctx.fillStyle = `rgba(0, 0, 30, ${alpha})` 
         ctx.fillRect(0, 0, canvas.width, canvas.height)
+        // Campfires push back the dark around them
+        ctx.globalCompositeOperation = 'lighter'
+        for (const fire of fires) {
+          const fx = fire.drawX + TILE_SIZE / 2, fy = fire.drawY + TILE_SIZE / 2
+          const glow = ctx.createRadialGradient(fx, fy, 0, fx, fy, TILE_SIZE * (3 + Math.sin(time * 8) * 0.1))
+          glow.addColorStop(0, `rgba(255, 160, 60, ${alpha * 0.6})`)
+          glow.addColorStop(1, 'rgba(255, 160, 60, 0)')
+          ctx.fillStyle = glow
+          ctx.fillRect(fx - TILE_SIZE * 4, fy - TILE_SIZE * 4, TILE_SIZE * 8, TILE_SIZE * 8)
+        }
+        ctx.globalCompositeOperation = 'source-over'
       }
     }
 
@@ -805,96 +1121,216 @@ function App() {
       window.removeEventListener('resize', resizeCanvas)
       cancelAnimationFrame(animationFrameId)
     }
-  }, [showCrafting, activeItem]) 
+  }, [showCrafting, showSaveMenu, showControls, showJournal, hasNotice, openChest, openCampfire, activeItem]) 
 
   // --- Computed UI Lists ---
-  const toolsAndStructures = Object.entries(uiInventory).filter(([item]) => {
-    const cat = ITEM_PROPS[item as ItemType]?.category
-    return cat === 'tool' || cat === 'structure'
-  })
-  const resources = Object.entries(uiInventory).filter(([item]) => {
-    const cat = ITEM_PROPS[item as ItemType]?.category
-    return cat === 'resource'
-  })
+  const tide = getTideStatus(worldRef.current.gameState)
+  const forecast = getForecast(worldRef.current.gameState)
+  const uiInventory = getTotals(uiSlots)
+  const pinned = worldRef.current.gameState.pinned ?? []
+  const wornTools = uiSlots.flatMap((stack, index) => stack && TOOLS[stack.item] && getDurabilityRatio(stack) < 1 ? [{ stack, index }] : [])
+  const nearWorkbench = showCrafting && isNearStation(worldRef.current, 'workbench')
+  const campfireMinutes = openCampfire ? getBurnMinutesLeft(worldRef.current.map[openCampfire.y][openCampfire.x], worldRef.current.gameState.totalMinutes) : 0
+  const activeBuffs = (Object.entries(worldRef.current.gameState.buffs ?? {}) as [BuffType, number][])
+    .filter(([, until]) => until > worldRef.current.gameState.totalMinutes)
+  const progress = worldRef.current.gameState.progress ?? { quests: {}, achievements: {} }
+  const currentQuest = getCurrentQuest(worldRef.current.gameState)
+
+  const renderSlot = (index: number) => {
+    const stack = uiSlots[index]
+    const item = stack?.item
+    const props = item && ITEM_PROPS[item]
+    const pin = index < HOTBAR_SIZE ? pinned[index] : null
+    const active = !!item && activeItem === item
+    const hint = !item ? 'Empty' : props?.edible ? 'Click to Eat' : props?.opens ? 'Click to Open' : props?.placeable ? 'Click to Place' : isHotbarItem(item) ? 'Click to Equip' : 'Resource'
+    return (
+      <div 
+        key={index} 
+        draggable={!!stack}
+        onDragStart={e => { e.dataTransfer.setData('text/plain', String(index)); dragRef.current = { from: index, split: e.shiftKey } }}
+        onDragOver={e => e.preventDefault()}
+        onDrop={e => { e.preventDefault(); handleSlotDrop(index) }}
+        onClick={() => item && handleUseItem(item)}
+        onContextMenu={e => { if (index < HOTBAR_SIZE) { e.preventDefault(); handleTogglePin(index) } }}
+        title={`${hint}. Drag to move, Shift+drag to split, drag onto the island to drop${index < HOTBAR_SIZE ? ', right-click to pin' : ''}`}
+        style={{ 
+          border: active ? '2px solid lime' : '1px solid #666', 
+          borderRadius: '4px', 
+          cursor: item ? 'pointer' : 'default',
+          position: 'relative',
+          background: active ? 'rgba(0, 255, 0, 0.2)' : 'transparent',
+          height: '48px', padding: '4px 2px', boxSizing: 'border-box',
+          textAlign: 'center', fontSize: '0.8em', wordBreak: 'break-all'
+        }}
+      >
+        {index < HOTBAR_ACTIONS.length && <span style={{ position: 'absolute', top: -8, left: -5, fontSize: '0.9em', color: '#aaa', background: '#222', padding: '0 2px' }}>{describeBinding(bindings, HOTBAR_ACTIONS[index])}</span>}
+        {pin && <span title={`Pinned: ${pin}`} style={{ position: 'absolute', top: -8, right: -5, fontSize: '0.9em' }}>📌</span>}
+        {stack ? <>{stack.item}<br/>x{stack.count}</> : pin && <span style={{ opacity: 0.35 }}>{pin}</span>}
+        {stack && TOOLS[stack.item] && (
+          <div style={{ marginTop: '2px', height: '3px', background: '#333', borderRadius: '2px' }}>
+            <div style={{ height: '100%', borderRadius: '2px', width: `${getDurabilityRatio(stack) * 100}%`, background: getDurabilityRatio(stack) < 0.25 ? '#e57373' : '#81c784' }} />
+          </div>
+        )}
+        {item && !!props?.shelfLife && (
+          <div title="Freshness" style={{ marginTop: '2px', height: '3px', background: '#333', borderRadius: '2px' }}>
+            <div style={{ height: '100%', borderRadius: '2px', width: `${getFreshness(worldRef.current.gameState, item) * 100}%`, background: getFreshness(worldRef.current.gameState, item) < 0.25 ? '#8d6e63' : '#aed581' }} />
+          </div>
+        )}
+      </div>
+    )
+  }
 
   return (
     <>
       {/* HUD */}
       <div style={{ position: 'absolute', top: 20, left: 20, background: 'rgba(0,0,0,0.6)', color: 'white', padding: '15px', borderRadius: '8px', fontFamily: 'monospace', pointerEvents: 'none', userSelect: 'none', display: 'flex', flexDirection: 'column', gap: '5px' }}>
         <div style={{ fontSize: '1.2em', fontWeight: 'bold', marginBottom: '5px' }}>Day {uiDay} - {uiTime}</div>
-        <div>Health: 100%</div>
+        <div style={{ color: uiStats.health < 30 ? '#ff6b6b' : 'white' }}>Health: {uiStats.health}%</div>
         <div>Hunger: {uiStats.hunger}%</div>
         <div>Energy: {uiStats.energy}%</div>
-        <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '5px' }}>Hold 'R' to Rest</div>
-        <div style={{ fontSize: '0.8em', color: '#aaa' }}>Press 'C' to Craft</div>
+        {activeBuffs.length > 0 && <div style={{ color: '#ffb74d' }}>{activeBuffs.map(([buff, until]) => `${BUFF_NAMES[buff]} ${formatDuration(until - worldRef.current.gameState.totalMinutes)}`).join(' · ')}</div>}
+        <div>Island: {getIslandName(worldRef.current.gameState.seed, worldRef.current.gameState.island)}{worldRef.current.player.onRaft && ' · On raft'}</div>
+        <div>Weather: {WEATHER_NAMES[getTodaysWeather(worldRef.current.gameState)]}{forecast && ` · Tomorrow: ${WEATHER_NAMES[forecast]}`}</div>
+        <div>Tide: {tide.rising ? 'Rising ▲' : 'Falling ▼'} {Math.round((tide.level + 1) * 50)}% · {tide.rising ? 'high' : 'low'} in {formatDuration(tide.minutesToTurn)}</div>
+        {currentQuest && <div style={{ color: '#ffd54f' }}>Next: {currentQuest.name} ({progress.quests[currentQuest.id] || 0}/{currentQuest.goal})</div>}
+        <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '5px' }}>Hold '{describeBinding(bindings, 'rest')}' to Rest</div>
+        <div style={{ fontSize: '0.8em', color: '#aaa' }}>Press '{describeBinding(bindings, 'craft')}' to Craft</div>
+        <div style={{ fontSize: '0.8em', color: '#aaa', userSelect: 'text', pointerEvents: 'auto' }}>Seed: {worldRef.current.gameState.seed}</div>
+        <button 
+          onClick={openSaveMenu}
+          style={{ marginTop: '10px', background: '#1565c0', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', pointerEvents: 'auto' }}>
+          Saves
+        </button>
+        <button 
+          onClick={openControls}
+          style={{ background: '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', pointerEvents: 'auto' }}>
+          Controls
+        </button>
+        <button 
+          onClick={() => handleAction('journal')}
+          style={{ background: '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', pointerEvents: 'auto' }}>
+          Journal
+        </button>
         <button 
-          onClick={handleRestart}
-          style={{ marginTop: '10px', background: '#d32f2f', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', pointerEvents: 'auto' }}>
-          Restart Game
+          onClick={() => setShowLog(prev => !prev)}
+          style={{ background: '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', pointerEvents: 'auto' }}>
+          Log
         </button>
         {activeItem && (
            <div style={{ marginTop: '10px', color: 'lime', fontWeight: 'bold' }}>
              {ITEM_PROPS[activeItem]?.placeable ? `PLACING: ${activeItem}` : `EQUIPPED: ${activeItem}`}
+             {activeItem === 'watering_can' && ` (${worldRef.current.gameState.water || 0}/${WATERING_CAN_CAPACITY})`}
            </div>
         )}
       </div>
 
-      {/* Inventory Container */}
+      {/* Toasts */}
+      <div style={{ position: 'absolute', top: 20, left: '50%', transform: 'translateX(-50%)', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '6px', pointerEvents: 'none', fontFamily: 'monospace' }}>
+        {toasts.map(toast => (
+          <div key={toast.id} style={{ background: 'rgba(0,0,0,0.8)', color: MESSAGE_COLORS[toast.kind], padding: '8px 14px', borderRadius: '6px', border: `1px solid ${MESSAGE_COLORS[toast.kind]}` }}>
+            {toast.text}
+          </div>
+        ))}
+      </div>
+
+      {/* Message Log */}
+      {showLog && (
+        <div style={{ position: 'absolute', top: 20, right: 20, width: '340px', maxHeight: '40vh', display: 'flex', flexDirection: 'column', background: 'rgba(0,0,0,0.75)', color: 'white', padding: '10px', borderRadius: '8px', fontFamily: 'monospace', fontSize: '0.85em' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px', color: '#888' }}>
+            <span>LOG</span>
+            <button onClick={() => setShowLog(false)} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer' }}>✕</button>
+          </div>
+          {/* Reversed so the newest message sits at the top without any scroll handling */}
+          <div style={{ overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '3px' }}>
+            {messages.length === 0 && <div style={{ opacity: 0.5 }}>Nothing yet.</div>}
+            {[...messages].reverse().map(message => (
+              <div key={message.id} style={{ color: MESSAGE_COLORS[message.kind] }}>
+                <span style={{ color: '#777' }}>{message.stamp}</span> {message.text}{message.count > 1 && ` (x${message.count})`}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Inventory */}
       <div style={{ 
         position: 'absolute', bottom: 20, left: '50%', transform: 'translateX(-50%)', 
-        display: 'flex', gap: '20px', pointerEvents: 'none' 
+        display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '10px', pointerEvents: 'none' 
       }}>
-        
-        {/* Tools & Structures (Hotbar) */}
+
+        {/* Bag */}
         <div style={{ background: 'rgba(0,0,0,0.8)', padding: '10px', borderRadius: '8px', display: 'flex', gap: '10px', color: 'white', fontFamily: 'monospace', pointerEvents: 'auto' }}>
-          <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)', color: '#888', fontSize: '0.8em' }}>TOOLS</div>
-          {toolsAndStructures.length === 0 && <div style={{ opacity: 0.5, padding: '5px' }}>Empty</div>}
-          {toolsAndStructures.map(([item, count], index) => (
-            <div 
-              key={item} 
-              onClick={() => handleUseItem(item as ItemType)}
-              title={ITEM_PROPS[item as ItemType]?.placeable ? "Click to Place" : "Click to Equip"}
-              style={{ 
-                border: activeItem === item ? '2px solid lime' : '1px solid #666', 
-                padding: '5px 10px', 
-                borderRadius: '4px', 
-                cursor: 'pointer',
-                position: 'relative',
-                background: activeItem === item ? 'rgba(0, 255, 0, 0.2)' : 'transparent',
-                minWidth: '60px', textAlign: 'center'
-              }}
-            >
-              <span style={{ position: 'absolute', top: -8, left: -5, fontSize: '0.8em', color: '#aaa', background: '#222', padding: '0 2px' }}>{index + 1}</span>
-              {item}<br/>x{count}
-            </div>
-          ))}
+          <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)', color: '#888', fontSize: '0.8em' }}>BAG</div>
+          <div style={{ display: 'grid', gridTemplateColumns: `repeat(${HOTBAR_SIZE}, 64px)`, gap: '6px' }}>
+            {Array.from({ length: uiSlots.length - HOTBAR_SIZE }, (_, i) => renderSlot(HOTBAR_SIZE + i))}
+          </div>
         </div>
 
-        {/* Resources (Bag) */}
+        {/* Hotbar */}
         <div style={{ background: 'rgba(0,0,0,0.8)', padding: '10px', borderRadius: '8px', display: 'flex', gap: '10px', color: 'white', fontFamily: 'monospace', pointerEvents: 'auto' }}>
-          <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)', color: '#888', fontSize: '0.8em' }}>BAG</div>
-          {resources.length === 0 && <div style={{ opacity: 0.5, padding: '5px' }}>Empty</div>}
-          {resources.map(([item, count]) => (
-            <div 
-              key={item} 
-              onClick={() => handleUseItem(item as ItemType)}
-              title={ITEM_PROPS[item as ItemType]?.edible ? "Click to Eat" : "Resource"}
-              style={{ 
-                border: '1px solid #666', 
-                padding: '5px 10px', 
-                borderRadius: '4px', 
-                cursor: ITEM_PROPS[item as ItemType]?.edible ? 'pointer' : 'default',
-                minWidth: '60px', textAlign: 'center',
-                opacity: 0.8
-              }}
-            >
-              {item}<br/>x{count}
-            </div>
-          ))}
+          <div style={{ writingMode: 'vertical-rl', transform: 'rotate(180deg)', color: '#888', fontSize: '0.8em' }}>TOOLS</div>
+          <div style={{ display: 'grid', gridTemplateColumns: `repeat(${HOTBAR_SIZE}, 64px)`, gap: '6px' }}>
+            {Array.from({ length: HOTBAR_SIZE }, (_, i) => renderSlot(i))}
+          </div>
         </div>
 
       </div>
 
+      {/* Passed Out Notice */}
+      {passOutLoss && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '400px',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <h2 style={{ margin: 0, marginBottom: '10px' }}>You passed out</h2>
+          <div style={{ color: '#aaa', marginBottom: '10px' }}>Staying up past 2:00 AM left you exhausted. You woke at dawn.</div>
+          {Object.keys(passOutLoss).length > 0 && (
+            <div style={{ fontSize: '0.9em' }}>
+              Lost: {Object.entries(passOutLoss).map(([item, count]) => `${count} ${item}`).join(', ')}
+            </div>
+          )}
+          <button onClick={() => setPassOutLoss(null)} style={{ marginTop: '15px', width: '100%', background: '#2e8b57', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px', cursor: 'pointer' }}>
+            Get Up
+          </button>
+        </div>
+      )}
+
+      {/* Knocked Out Summary */}
+      {runSummary && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #d32f2f',
+          width: '400px',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <h2 style={{ margin: 0, marginBottom: '10px' }}>Knocked Out</h2>
+          <div style={{ color: '#aaa', marginBottom: '15px' }}>Hunger got the better of you. You wash up on the island again with only your tools.</div>
+          <div>Days survived: {runSummary.daysSurvived}</div>
+          <div>Items gathered: {runSummary.itemsGathered}</div>
+          <button onClick={() => setRunSummary(null)} style={{ marginTop: '15px', width: '100%', background: '#2e8b57', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px', cursor: 'pointer' }}>
+            Try Again
+          </button>
+        </div>
+      )}
+
       {/* Crafting Menu Modal */}
       {showCrafting && (
         <div style={{
@@ -908,6 +1344,8 @@ function App() {
           borderRadius: '12px',
           border: '2px solid #444',
           width: '400px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
           fontFamily: 'monospace',
           boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
         }}>
@@ -923,11 +1361,18 @@ function App() {
                 if (has < amount) canCraft = false
                 return `${amount} ${item} (${has}/${amount})`
               })
+              const missingStation = recipe.station && !isNearStation(worldRef.current, recipe.station) ? recipe.station : null
+              if (missingStation) canCraft = false
               return (
                 <div key={recipe.id} style={{ background: canCraft ? 'rgba(50, 100, 50, 0.2)' : 'rgba(50, 50, 50, 0.2)', padding: '10px', borderRadius: '6px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                   <div>
                     <div style={{ fontWeight: 'bold', color: canCraft ? '#fff' : '#888' }}>{recipe.name}</div>
                     <div style={{ fontSize: '0.8em', color: '#aaa' }}>Requires: {ingredientsList.join(', ')}</div>
+                    {recipe.station && (
+                      <div style={{ fontSize: '0.8em', color: missingStation ? '#e57373' : '#81c784' }}>
+                        {missingStation ? `Needs a ${STATION_NAMES[recipe.station]} nearby` : `At ${STATION_NAMES[recipe.station]}`}
+                      </div>
+                    )}
                   </div>
                   <button 
                     disabled={!canCraft}
@@ -939,10 +1384,383 @@ function App() {
               )
             })}
           </div>
+          {wornTools.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px', marginBottom: '10px' }}>Repair</h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                {wornTools.map(({ stack, index }) => {
+                  const cost = Object.entries(getRepairCost(stack.item))
+                  const canRepair = nearWorkbench && cost.every(([ingredient, amount]) => (uiInventory[ingredient as ItemType] || 0) >= (amount || 0))
+                  return (
+                    <div key={index} style={{ background: 'rgba(50, 50, 50, 0.2)', padding: '10px', borderRadius: '6px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <div>
+                        <div style={{ fontWeight: 'bold', color: canRepair ? '#fff' : '#888' }}>{stack.item} ({Math.round(getDurabilityRatio(stack) * 100)}%)</div>
+                        <div style={{ fontSize: '0.8em', color: '#aaa' }}>Costs: {cost.map(([ingredient, amount]) => `${amount} ${ingredient}`).join(', ')}</div>
+                        {!nearWorkbench && <div style={{ fontSize: '0.8em', color: '#e57373' }}>Needs a {STATION_NAMES.workbench} nearby</div>}
+                      </div>
+                      <button
+                        disabled={!canRepair}
+                        onClick={() => handleRepair(index)}
+                        style={{ background: canRepair ? '#2e8b57' : '#444', color: 'white', border: 'none', padding: '5px 15px', borderRadius: '4px', cursor: canRepair ? 'pointer' : 'not-allowed', opacity: canRepair ? 1 : 0.5 }}>
+                        Repair
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Chest Transfer Modal */}
+      {openChest && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '480px',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid #444', paddingBottom: '10px' }}>
+            <h2 style={{ margin: 0 }}>Chest</h2>
+            <button onClick={() => setOpenChest(null)} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: '1.2em' }}>✕</button>
+          </div>
+          <div style={{ display: 'flex', gap: '20px' }}>
+            {[
+              { title: 'You', stacks: uiInventory, toChest: true },
+              { title: 'Chest', stacks: worldRef.current.map[openChest.y][openChest.x].storage ?? {}, toChest: false }
+            ].map(pane => (
+              <div key={pane.title} style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '5px' }}>
+                <div style={{ color: '#888', fontSize: '0.8em', marginBottom: '5px' }}>{pane.title.toUpperCase()}</div>
+                {Object.keys(pane.stacks).length === 0 && <div style={{ opacity: 0.5 }}>Empty</div>}
+                {Object.entries(pane.stacks).map(([item, count]) => (
+                  <div
+                    key={item}
+                    onClick={() => handleTransfer(item as ItemType, pane.toChest)}
+                    title={pane.toChest ? 'Click to Store' : 'Click to Take'}
+                    style={{ background: 'rgba(50, 50, 50, 0.4)', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer', display: 'flex', justifyContent: 'space-between' }}>
+                    <span>{item}</span><span>x{count}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '15px' }}>Click a stack to move it. Breaking the chest with a hammer spills its contents.</div>
+        </div>
+      )}
+
+      {/* Campfire Cooking Modal */}
+      {openCampfire && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '400px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid #444', paddingBottom: '10px' }}>
+            <h2 style={{ margin: 0 }}>Campfire</h2>
+            <button onClick={() => setOpenCampfire(null)} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: '1.2em' }}>✕</button>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+            <div style={{ color: campfireMinutes > 0 ? '#ffb74d' : '#888' }}>
+              {campfireMinutes > 0 ? `Burning · ${formatDuration(campfireMinutes)} left` : 'Gone out'}
+            </div>
+            <div style={{ display: 'flex', gap: '5px' }}>
+              {(Object.keys(FUEL_MINUTES) as ItemType[]).map(fuel => (
+                <button
+                  key={fuel}
+                  disabled={!uiInventory[fuel]}
+                  onClick={() => handleAddFuel(fuel)}
+                  style={{ background: uiInventory[fuel] ? '#1565c0' : '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: uiInventory[fuel] ? 'pointer' : 'not-allowed', opacity: uiInventory[fuel] ? 1 : 0.5 }}>
+                  + {fuel} ({uiInventory[fuel] || 0})
+                </button>
+              ))}
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            {COOKING_RECIPES.map(recipe => {
+              const meal = ITEM_PROPS[recipe.result]
+              const canCook = campfireMinutes > 0 && Object.entries(recipe.ingredients).every(([item, amount]) => (uiInventory[item as ItemType] || 0) >= (amount || 0))
+              return (
+                <div key={recipe.id} style={{ background: canCook ? 'rgba(50, 100, 50, 0.2)' : 'rgba(50, 50, 50, 0.2)', padding: '10px', borderRadius: '6px', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <div>
+                    <div style={{ fontWeight: 'bold', color: canCook ? '#fff' : '#888' }}>{recipe.name}</div>
+                    <div style={{ fontSize: '0.8em', color: '#aaa' }}>
+                      Requires: {Object.entries(recipe.ingredients).map(([item, amount]) => `${amount} ${item} (${uiInventory[item as ItemType] || 0}/${amount})`).join(', ')}
+                    </div>
+                    <div style={{ fontSize: '0.8em', color: '#81c784' }}>
+                      +{meal?.hungerRestore} hunger, +{meal?.energyRestore || 0} energy{meal?.buff && `, ${BUFF_NAMES[meal.buff]}`}
+                    </div>
+                  </div>
+                  <button
+                    disabled={!canCook}
+                    onClick={() => handleCook(recipe)}
+                    style={{ background: canCook ? '#2e8b57' : '#444', color: 'white', border: 'none', padding: '5px 15px', borderRadius: '4px', cursor: canCook ? 'pointer' : 'not-allowed', opacity: canCook ? 1 : 0.5 }}>
+                    Cook
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+          <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '15px' }}>Raw food spoils within days; meals keep a little longer. Food stored in a chest stays fresh.</div>
+        </div>
+      )}
+
+      {/* Journal */}
+      {showJournal && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '420px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid #444', paddingBottom: '10px' }}>
+            <h2 style={{ margin: 0 }}>Journal</h2>
+            <button onClick={() => setShowJournal(false)} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: '1.2em' }}>✕</button>
+          </div>
+          <h3 style={{ marginTop: 0, marginBottom: '10px' }}>Objectives</h3>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {QUESTS.map(quest => {
+              const complete = isComplete(progress.quests, quest)
+              return (
+                <div key={quest.id} style={{ opacity: complete ? 0.5 : 1, borderLeft: `3px solid ${quest === currentQuest ? '#ffd54f' : complete ? '#2e8b57' : '#444'}`, paddingLeft: '8px' }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <strong>{complete ? '✓ ' : ''}{quest.name}</strong>
+                    <span style={{ color: '#aaa' }}>{progress.quests[quest.id] || 0}/{quest.goal}</span>
+                  </div>
+                  <div style={{ fontSize: '0.85em', color: '#ccc' }}>{quest.description}</div>
+                  <div style={{ fontSize: '0.8em', color: '#ffb74d' }}>Reward: {Object.entries(quest.reward ?? {}).map(([item, count]) => `${count} ${item}`).join(', ')}</div>
+                </div>
+              )
+            })}
+          </div>
+          <h3 style={{ marginTop: '20px', marginBottom: '10px' }}>Achievements</h3>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {ACHIEVEMENTS.map(achievement => {
+              const count = progress.achievements[achievement.id] || 0
+              const unlocked = isComplete(progress.achievements, achievement)
+              return (
+                <div key={achievement.id} style={{ opacity: unlocked ? 1 : 0.6 }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <strong style={{ color: unlocked ? '#ffd54f' : 'white' }}>{unlocked ? '★' : '☆'} {achievement.name}</strong>
+                    <span style={{ color: '#aaa' }}>{unlocked ? 'Unlocked' : `${count}/${achievement.goal}`}</span>
+                  </div>
+                  <div style={{ fontSize: '0.85em', color: '#ccc' }}>{achievement.description}</div>
+                  {!unlocked && (
+                    <div style={{ marginTop: '3px', height: '3px', background: '#333', borderRadius: '2px' }}>
+                      <div style={{ height: '100%', borderRadius: '2px', width: `${count / achievement.goal * 100}%`, background: '#ffd54f' }} />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
         </div>
       )}
 
-      <canvas ref={canvasRef} style={{ display: 'block' }} />
+      {/* Controls Menu */}
+      {showControls && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '420px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid #444', paddingBottom: '10px' }}>
+            <h2 style={{ margin: 0 }}>Controls</h2>
+            <button onClick={() => { setRebinding(null); setShowControls(false) }} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: '1.2em' }}>✕</button>
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {INPUT_ACTIONS.map(action => (
+              <div key={action} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <span style={{ flex: 1 }}>{ACTION_LABELS[action]}</span>
+                {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                  const waiting = rebinding?.action === action && rebinding.slot === slot
+                  const key = bindings[action][slot]
+                  return (
+                    <button
+                      key={slot}
+                      onClick={() => setRebinding({ action, slot })}
+                      style={{ width: '80px', background: waiting ? '#2e8b57' : '#333', color: key || waiting ? 'white' : '#777', border: '1px solid #666', padding: '4px', borderRadius: '4px', cursor: 'pointer', fontFamily: 'monospace' }}>
+                      {waiting ? '...' : key ? formatKey(key) : '—'}
+                    </button>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+          <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '15px' }}>
+            Click a slot, then press a key. Esc cancels, Backspace clears the slot.
+          </div>
+          <div style={{ fontSize: '0.8em', color: '#aaa', marginTop: '5px' }}>
+            Gamepad: stick or d-pad to move, A use, B back, X rest, Y craft, LB/RB switch tools.
+          </div>
+          <button
+            onClick={handleResetBindings}
+            style={{ marginTop: '15px', background: '#d32f2f', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>
+            Reset to Defaults
+          </button>
+        </div>
+      )}
+
+      {/* Save Menu */}
+      {showSaveMenu && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(20, 20, 25, 0.95)',
+          color: 'white',
+          padding: '20px',
+          borderRadius: '12px',
+          border: '2px solid #444',
+          width: '480px',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          fontFamily: 'monospace',
+          boxShadow: '0 10px 25px rgba(0,0,0,0.5)'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '20px', borderBottom: '1px solid #444', paddingBottom: '10px' }}>
+            <h2 style={{ margin: 0 }}>Saves</h2>
+            {slotRef.current && (
+              <button onClick={() => setShowSaveMenu(false)} style={{ background: 'none', border: 'none', color: '#888', cursor: 'pointer', fontSize: '1.2em' }}>✕</button>
+            )}
+          </div>
+
+          {saveError && (
+            <div style={{ background: 'rgba(211, 47, 47, 0.3)', border: '1px solid #d32f2f', padding: '10px', borderRadius: '6px', marginBottom: '15px', fontSize: '0.9em' }}>
+              Could not load save: {saveError}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            {saveSlots.length === 0 && <div style={{ opacity: 0.5 }}>No saved islands yet.</div>}
+            {saveSlots.map(slot => (
+              <div key={slot.id} style={{ background: slotRef.current?.id === slot.id ? 'rgba(50, 100, 50, 0.2)' : 'rgba(50, 50, 50, 0.2)', padding: '10px', borderRadius: '6px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px' }}>
+                <div>
+                  <div style={{ fontWeight: 'bold' }}>{slot.name}</div>
+                  <div style={{ fontSize: '0.8em', color: '#aaa' }}>Day {slot.day} - {formatTime(slot.timeOfDay)} · Seed {slot.seed}</div>
+                  <div style={{ fontSize: '0.8em', color: '#888' }}>Saved {new Date(slot.savedAt).toLocaleString()}</div>
+                </div>
+                <div style={{ display: 'flex', gap: '5px' }}>
+                  <button onClick={() => handleLoadSlot(slot.id)} style={{ background: '#2e8b57', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>Load</button>
+                  <button onClick={() => handleExportSlot(slot.id)} style={{ background: '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>Export</button>
+                  <button onClick={() => handleDeleteSlot(slot)} style={{ background: '#d32f2f', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <h3 style={{ marginTop: '20px', marginBottom: '10px' }}>New Island</h3>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            <input
+              value={nameInput}
+              onChange={e => setNameInput(e.target.value)}
+              placeholder="Save name"
+              style={{ background: '#222', color: 'white', border: '1px solid #666', borderRadius: '4px', padding: '5px', fontFamily: 'monospace' }}
+            />
+            <div style={{ fontSize: '0.8em', color: '#aaa' }}>World seed (share it to play the same island)</div>
+            <div style={{ display: 'flex', gap: '10px' }}>
+              <input
+                value={seedInput}
+                onChange={e => setSeedInput(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') startNewGame() }}
+                placeholder="Leave blank for random"
+                style={{ flex: 1, background: '#222', color: 'white', border: '1px solid #666', borderRadius: '4px', padding: '5px', fontFamily: 'monospace' }}
+              />
+              <button
+                onClick={() => setSeedInput(randomSeedText())}
+                style={{ background: '#444', color: 'white', border: 'none', padding: '5px 10px', borderRadius: '4px', cursor: 'pointer' }}>
+                Random
+              </button>
+            </div>
+            <button
+              onClick={startNewGame}
+              style={{ background: '#2e8b57', color: 'white', border: 'none', padding: '8px 15px', borderRadius: '4px', cursor: 'pointer' }}>
+              Set Sail
+            </button>
+          </div>
+
+          <h3 style={{ marginTop: '20px', marginBottom: '10px' }}>Import</h3>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={e => {
+              const file = e.target.files?.[0]
+              if (file) handleImportFile(file)
+              e.target.value = ''
+            }}
+            style={{ color: '#aaa', fontFamily: 'monospace' }}
+          />
+
+          {slotRef.current && (
+            <>
+              <h3 style={{ marginTop: '20px', marginBottom: '10px' }}>Sound</h3>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {(Object.keys(VOLUME_LABELS) as (keyof VolumeSettings)[]).map(key => (
+                  <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                    <span style={{ width: '80px' }}>{VOLUME_LABELS[key]}</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={Math.round(uiVolume[key] * 100)}
+                      onChange={e => handleVolumeChange(key, Number(e.target.value) / 100)}
+                      style={{ flex: 1 }}
+                    />
+                    <span style={{ width: '40px', textAlign: 'right', color: '#aaa' }}>{Math.round(uiVolume[key] * 100)}%</span>
+                  </label>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {IS_TOUCH_DEVICE && !showSaveMenu && !showControls && (
+        <TouchControls input={inputRef.current} onAction={handleAction} />
+      )}
+
+      <canvas ref={canvasRef} onClick={handleCanvasClick} onDragOver={e => e.preventDefault()} onDrop={e => { e.preventDefault(); handleWorldDrop() }} style={{ display: 'block' }} />
     </>
   )
 }
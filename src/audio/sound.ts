@@ -0,0 +1,191 @@
+import { getTideStatus } from '../game/tide'
+import { GameState, VolumeSettings } from '../game/types'
+import { getTodaysWeather } from '../game/weather'
+
+// --- Sound ---
+// Everything is synthesized with Web Audio, so there are no files to ship.
+// Browsers only allow audio after a user gesture, so the context is created
+// lazily by `startAudio`; until then every call here is a no-op.
+
+export type SoundId = 'step_sand' | 'step_grass' | 'step_water' | 'chop' | 'mine' | 'pickup' | 'craft' | 'place' | 'tide'
+
+// One voice of a sound. Noise sweeps its filter between the two frequencies; tones sweep their pitch
+interface SoundLayer {
+  source: 'noise' | OscillatorType
+  freq: [number, number]
+  filter?: BiquadFilterType
+  duration: number // Seconds
+  gain: number
+  delay?: number // Seconds after the sound starts
+}
+
+export const SOUNDS: Record<SoundId, SoundLayer[]> = {
+  step_sand: [{ source: 'noise', filter: 'lowpass', freq: [900, 300], duration: 0.09, gain: 0.25 }],
+  step_grass: [{ source: 'noise', filter: 'bandpass', freq: [2600, 1800], duration: 0.06, gain: 0.18 }],
+  step_water: [
+    { source: 'noise', filter: 'bandpass', freq: [700, 1800], duration: 0.18, gain: 0.3 },
+    { source: 'sine', freq: [900, 300], duration: 0.08, gain: 0.08, delay: 0.03 },
+  ],
+  chop: [
+    { source: 'triangle', freq: [200, 70], duration: 0.12, gain: 0.5 },
+    { source: 'noise', filter: 'highpass', freq: [3000, 1500], duration: 0.05, gain: 0.25 },
+  ],
+  mine: [
+    { source: 'square', freq: [700, 500], duration: 0.07, gain: 0.12 },
+    { source: 'noise', filter: 'highpass', freq: [5000, 2500], duration: 0.1, gain: 0.25 },
+  ],
+  pickup: [
+    { source: 'sine', freq: [660, 660], duration: 0.08, gain: 0.2 },
+    { source: 'sine', freq: [990, 990], duration: 0.12, gain: 0.2, delay: 0.07 },
+  ],
+  craft: [
+    { source: 'triangle', freq: [523, 523], duration: 0.1, gain: 0.25 },
+    { source: 'triangle', freq: [659, 659], duration: 0.1, gain: 0.25, delay: 0.08 },
+    { source: 'triangle', freq: [784, 784], duration: 0.2, gain: 0.25, delay: 0.16 },
+  ],
+  place: [
+    { source: 'sine', freq: [140, 60], duration: 0.15, gain: 0.5 },
+    { source: 'noise', filter: 'lowpass', freq: [1200, 400], duration: 0.12, gain: 0.2 },
+  ],
+  tide: [{ source: 'noise', filter: 'lowpass', freq: [200, 1400], duration: 2.5, gain: 0.35 }],
+}
+
+export const DEFAULT_VOLUME: VolumeSettings = { master: 0.8, sfx: 1, ambient: 0.6 }
+
+const CROSSFADE_SECONDS = 3
+
+export interface SoundEngine {
+  volume: VolumeSettings
+  context: AudioContext | null
+  noise: AudioBuffer | null
+  master: GainNode | null
+  sfx: GainNode | null
+  ambient: GainNode | null
+  surf: GainNode | null
+  insects: GainNode | null
+}
+
+export const createSoundEngine = (volume: VolumeSettings = DEFAULT_VOLUME): SoundEngine => ({
+  volume, context: null, noise: null, master: null, sfx: null, ambient: null, surf: null, insects: null
+})
+
+const createNoise = (context: AudioContext): AudioBuffer => {
+  const buffer = context.createBuffer(1, context.sampleRate * 2, context.sampleRate)
+  const data = buffer.getChannelData(0)
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1
+  return buffer
+}
+
+const createGain = (context: AudioContext, value: number, destination: AudioNode): GainNode => {
+  const gain = context.createGain()
+  gain.gain.value = value
+  gain.connect(destination)
+  return gain
+}
+
+// A looping noise bed, filtered and wobbled by a slow LFO on its volume
+const startLoop = (engine: SoundEngine, filter: BiquadFilterType, frequency: number, q: number, wobbleHz: number, out: GainNode) => {
+  const context = engine.context!
+  const source = context.createBufferSource()
+  source.buffer = engine.noise
+  source.loop = true
+  const shape = context.createBiquadFilter()
+  shape.type = filter
+  shape.frequency.value = frequency
+  shape.Q.value = q
+  const wobble = createGain(context, 0.5, out)
+  const depth = context.createGain()
+  depth.gain.value = 0.5
+  depth.connect(wobble.gain)
+  const lfo = context.createOscillator()
+  lfo.frequency.value = wobbleHz
+  lfo.connect(depth)
+  source.connect(shape).connect(wobble)
+  source.start()
+  lfo.start()
+}
+
+// Call from a user gesture; safe to call repeatedly
+export const startAudio = (engine: SoundEngine) => {
+  if (engine.context) {
+    if (engine.context.state === 'suspended') engine.context.resume()
+    return
+  }
+  if (typeof AudioContext === 'undefined') return
+  const context = new AudioContext()
+  engine.context = context
+  engine.noise = createNoise(context)
+  engine.master = createGain(context, 0, context.destination)
+  engine.sfx = createGain(context, 0, engine.master)
+  engine.ambient = createGain(context, 0, engine.master)
+  engine.surf = createGain(context, 0, engine.ambient)
+  engine.insects = createGain(context, 0, engine.ambient)
+  startLoop(engine, 'lowpass', 500, 1, 0.12, engine.surf) // Waves rolling in
+  startLoop(engine, 'bandpass', 5200, 12, 16, engine.insects) // Chirring insects
+  setVolume(engine, engine.volume)
+}
+
+export const setVolume = (engine: SoundEngine, volume: VolumeSettings) => {
+  engine.volume = volume
+  if (!engine.context) return
+  const now = engine.context.currentTime
+  engine.master!.gain.setTargetAtTime(volume.master, now, 0.05)
+  engine.sfx!.gain.setTargetAtTime(volume.sfx, now, 0.05)
+  engine.ambient!.gain.setTargetAtTime(volume.ambient, now, 0.05)
+}
+
+export const playSound = (engine: SoundEngine, id: SoundId) => {
+  const { context, noise, sfx } = engine
+  if (!context || !noise || !sfx || context.state !== 'running') return
+  for (const layer of SOUNDS[id]) {
+    const start = context.currentTime + (layer.delay || 0)
+    const end = start + layer.duration
+    const envelope = context.createGain()
+    envelope.gain.setValueAtTime(0.0001, start)
+    envelope.gain.exponentialRampToValueAtTime(layer.gain, start + Math.min(0.01, layer.duration / 4))
+    envelope.gain.exponentialRampToValueAtTime(0.0001, end)
+    envelope.connect(sfx)
+
+    let source: AudioScheduledSourceNode
+    if (layer.source === 'noise') {
+      const buffer = context.createBufferSource()
+      buffer.buffer = noise
+      const filter = context.createBiquadFilter()
+      filter.type = layer.filter ?? 'lowpass'
+      filter.frequency.setValueAtTime(layer.freq[0], start)
+      filter.frequency.exponentialRampToValueAtTime(layer.freq[1], end)
+      buffer.connect(filter).connect(envelope)
+      source = buffer
+    } else {
+      const tone = context.createOscillator()
+      tone.type = layer.source
+      tone.frequency.setValueAtTime(layer.freq[0], start)
+      tone.frequency.exponentialRampToValueAtTime(layer.freq[1], end)
+      tone.connect(envelope)
+      source = tone
+    }
+    source.start(start)
+    source.stop(end + 0.05)
+  }
+}
+
+// 0 through the day, 1 through the night, easing across dusk (18:00-20:00) and dawn (5:00-7:00)
+const getNightness = (timeOfDay: number): number => {
+  const hour = timeOfDay / 60
+  if (hour >= 20 || hour < 5) return 1
+  if (hour >= 18) return (hour - 18) / 2
+  if (hour < 7) return 1 - (hour - 5) / 2
+  return 0
+}
+
+// Surf follows the tide and the weather; insects come out after dark. Call once per game minute
+export const updateAmbience = (engine: SoundEngine, gameState: GameState) => {
+  if (!engine.context) return
+  const now = engine.context.currentTime
+  const night = getNightness(gameState.timeOfDay)
+  const weather = getTodaysWeather(gameState)
+  const swell = weather === 'storm' ? 1.6 : weather === 'rain' ? 1.2 : 1
+  const tide = (getTideStatus(gameState).level + 1) / 2
+  engine.surf!.gain.setTargetAtTime((0.25 + 0.25 * tide) * swell * (1 - 0.3 * night), now, CROSSFADE_SECONDS)
+  engine.insects!.gain.setTargetAtTime(0.12 * night * (weather === 'clear' ? 1 : 0.3), now, CROSSFADE_SECONDS)
+}
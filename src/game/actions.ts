@@ -0,0 +1,210 @@
+import { markTileChanged } from './chunks'
+import { getCarriedSince, getFoodValue, grantBuff, mixFreshness, tendCampfire } from './cooking'
+import { emit } from './events'
+import { farmInteract } from './farming'
+import { castLine, getWaterDepth, reelIn } from './fishing'
+import { boardRaft, leaveRaft } from './islands'
+import { countItem, getRoomFor, getTotals, removeFromInventory } from './inventory'
+import { formatItems, getMissingIngredients, getRefund, hasIngredients, ITEM_PROPS, STATION_NAMES } from './items'
+import { LootTableId, rollLoot } from './loot'
+import { canSpillOnto, giveItem, initStorage, isContainer, removeStructure } from './storage'
+import { getDurability, getRepairCost, ToolKind, TOOLS, wearTool } from './tools'
+import { ActionResult, done, ItemType, Recipe, refuse, TileType } from './types'
+import { catchCrab, findEntityAt } from './wildlife'
+import { gatherItem, getFacingTarget, isInBounds, isNearStation, World } from './world'
+
+// --- Player Actions ---
+
+// Nodes a gathering tool harvests, what they leave behind and their loot
+const HARVESTS: { [key in ItemType]?: { tool: ToolKind, leaves: ItemType, loot: LootTableId } } = {
+  tree: { tool: 'axe', leaves: 'tree_stump', loot: 'tree' },
+  rock: { tool: 'pickaxe', leaves: 'rubble', loot: 'rock' },
+  ore: { tool: 'pickaxe', leaves: 'rubble', loot: 'ore' }
+}
+
+export const interact = (world: World, activeItem: ItemType | null): ActionResult => {
+  const target = getFacingTarget(world.player)
+  const result = interactWithFacing(world, activeItem)
+  if (result.ok && isInBounds(target.x, target.y)) markTileChanged(world, target.x, target.y)
+  return result
+}
+
+const interactWithFacing = (world: World, activeItem: ItemType | null): ActionResult => {
+  const { player, map, gameState } = world
+  if (world.fishing) return fish(world)
+  if (player.isResting) return refuse('You are resting.')
+  if (player.energy <= 0) return refuse('You are too exhausted to do that.')
+  // Aboard the raft the only other thing to do is fish
+  if (player.onRaft && activeItem !== 'fishing_rod') return leaveRaft(world)
+  if (activeItem === 'raft') return boardRaft(world)
+
+  const target = getFacingTarget(player)
+  if (!isInBounds(target.x, target.y)) return refuse("You can't reach that.")
+  // Crabs are caught by hand, whatever is equipped
+  const crab = findEntityAt(world, target.x, target.y, 'crab')
+  if (crab) return catchCrab(world, crab)
+  const tile = map[target.y][target.x]
+  if (activeItem === 'fishing_rod' && !tile.item && getWaterDepth(tile.type)) {
+    castLine(world, target.x, target.y)
+    return { ok: true, broken: wearTool(world, activeItem) }
+  }
+  if (tile.placedStructure) {
+    if (activeItem === 'hammer') return hammerStructure(world, target.x, target.y)
+    if (isContainer(tile)) return { ok: true, container: target }
+    if (tile.placedStructure === 'campfire') return tendCampfire(world, target.x, target.y)
+    return refuse(`There is nothing to do with the ${tile.placedStructure}.`)
+  }
+  const farmed = farmInteract(world, tile, activeItem)
+  if (farmed) return farmed
+  if (!tile.item) return refuse('There is nothing here.')
+
+  const harvest = HARVESTS[tile.item]
+  if (harvest) {
+    const tool = activeItem ? TOOLS[activeItem] : undefined
+    if (!activeItem || tool?.kind !== harvest.tool) return refuse(`You must equip ${harvest.tool === 'axe' ? 'an axe' : 'a pickaxe'} to harvest this.`)
+    const node = tile.item
+    tile.item = harvest.leaves
+    if (harvest.leaves === 'tree_stump') tile.stumpChoppedAt = gameState.totalMinutes
+    else tile.minedAt = gameState.totalMinutes
+    // Better tools yield extra of the table's main drop
+    const drops = rollLoot(harvest.loot, gameState.day)
+    if (drops[0]) drops[0].amount += tool.bonus || 0
+    for (const drop of drops) gatherItem(world, drop.item, drop.amount)
+    player.energy = Math.max(0, player.energy - (tool.energy || 0))
+    emit(world.bus, { type: 'nodeHarvested', node })
+    return { ok: true, gained: drops, broken: wearTool(world, activeItem) }
+  }
+  if (tile.item === 'tree_stump' || tile.item === 'rubble') return refuse('There is nothing left to gather here.')
+
+  const item = tile.item
+  if (!getRoomFor(gameState, item)) return refuse('Your bag is full.')
+  const durability = tile.itemDurability
+  if (tile.itemSince !== undefined) mixFreshness(gameState, item, 1, tile.itemSince)
+  tile.item = undefined 
+  tile.itemDurability = undefined
+  tile.itemSince = undefined
+  gatherItem(world, item, 1, durability)
+  player.energy = Math.max(0, player.energy - 5)
+  return { ok: true, gained: [{ item, amount: 1 }] }
+}
+
+// Each swing damages the structure; the last one removes it, refunds part of its recipe
+// and spills anything it was storing
+const hammerStructure = (world: World, x: number, y: number): ActionResult => {
+  const tile = world.map[y][x]
+  const structure = tile.placedStructure
+  if (!structure) return refuse('There is nothing here to break.')
+  world.player.energy = Math.max(0, world.player.energy - (TOOLS.hammer?.energy || 0))
+  const broken = wearTool(world, 'hammer')
+  tile.structureDamage = (tile.structureDamage || 0) + 1
+  if (tile.structureDamage < (ITEM_PROPS[structure]?.hp || 1)) return { ok: true, broken }
+
+  removeStructure(world, x, y)
+  const refund = getRefund(structure)
+  for (const [item, amount] of Object.entries(refund)) giveItem(world, item as ItemType, amount)
+  return { ok: true, broken, gained: Object.entries(refund).map(([item, amount]) => ({ item: item as ItemType, amount: amount || 0 })) }
+}
+
+// Interacting while a line is out reels it in; only a bite lands anything
+const fish = (world: World): ActionResult => {
+  const wasBiting = world.fishing?.phase === 'bite'
+  if (reelIn(world)) return done
+  return refuse(wasBiting ? 'The line came up empty.' : 'Too early, nothing was biting yet.')
+}
+
+export const canPlaceAt = (world: World, x: number, y: number): boolean => {
+  if (!isInBounds(x, y)) return false
+  const tile = world.map[y][x]
+  return tile.type !== TileType.DeepWater && !tile.item && !tile.placedStructure && !tile.crop
+}
+
+export const placeItem = (world: World, item: ItemType): ActionResult => {
+  if (!ITEM_PROPS[item]?.placeable) return refuse(`The ${item} can't be placed.`)
+  if (!countItem(world.gameState.inventory, item)) return refuse(`You have no ${item}.`)
+  const target = getFacingTarget(world.player)
+  if (!canPlaceAt(world, target.x, target.y)) return refuse(`You can't place the ${item} there.`)
+
+  const tile = world.map[target.y][target.x]
+  tile.placedStructure = item
+  initStorage(tile)
+  markTileChanged(world, target.x, target.y)
+  removeFromInventory(world.gameState, item)
+  emit(world.bus, { type: 'structurePlaced', item, x: target.x, y: target.y })
+  return done
+}
+
+// Sets one of the item down on the tile in front of the player, where it can be picked up again
+export const dropItem = (world: World, item: ItemType): ActionResult => {
+  const { inventory } = world.gameState
+  if (!countItem(inventory, item)) return refuse(`You have no ${item}.`)
+  const target = getFacingTarget(world.player)
+  if (!isInBounds(target.x, target.y) || !canSpillOnto(world.map[target.y][target.x])) return refuse('There is no room to drop that there.')
+  const tile = world.map[target.y][target.x]
+  tile.item = item
+  // The one dropped comes off the last stack, so a worn tool takes its wear with it
+  tile.itemDurability = [...inventory].reverse().find(stack => stack?.item === item)?.durability
+  tile.itemSince = getCarriedSince(world.gameState, item)
+  markTileChanged(world, target.x, target.y)
+  removeFromInventory(world.gameState, item)
+  return done
+}
+
+export const craft = (world: World, recipe: Recipe): ActionResult => {
+  const totals = getTotals(world.gameState.inventory)
+  if (recipe.station && !isNearStation(world, recipe.station)) {
+    return refuse(`You need to be near a ${STATION_NAMES[recipe.station]} to craft this.`)
+  }
+  if (!hasIngredients(totals, recipe)) return refuse(`Missing ${formatItems(getMissingIngredients(totals, recipe))}.`)
+  // Checked with the ingredients used up, since that can free a slot
+  const after = { ...world.gameState, inventory: world.gameState.inventory.map(stack => stack && { ...stack }) }
+  for (const [item, amount] of Object.entries(recipe.ingredients)) removeFromInventory(after, item as ItemType, amount)
+  if (getRoomFor(after, recipe.result) < recipe.amount) return refuse('Your bag is full.')
+  for (const [item, amount] of Object.entries(recipe.ingredients)) {
+    removeFromInventory(world.gameState, item as ItemType, amount)
+  }
+  giveItem(world, recipe.result, recipe.amount)
+  emit(world.bus, { type: 'recipeCrafted', recipe: recipe.id, item: recipe.result, amount: recipe.amount, station: recipe.station })
+  return done
+}
+
+// Restores a worn tool to full durability at a workbench for part of its recipe
+export const repairTool = (world: World, index: number): ActionResult => {
+  const { gameState } = world
+  const stack = gameState.inventory[index]
+  const tool = stack && TOOLS[stack.item]
+  if (!stack || !tool) return refuse('There is no tool in that slot.')
+  if (getDurability(stack) >= tool.durability) return refuse('That tool is not worn.')
+  if (!isNearStation(world, 'workbench')) return refuse(`You need to be near a ${STATION_NAMES.workbench} to repair tools.`)
+  const cost = getRepairCost(stack.item)
+  const totals = getTotals(gameState.inventory)
+  if (!hasIngredients(totals, { ingredients: cost })) return refuse(`Missing ${formatItems(getMissingIngredients(totals, { ingredients: cost }))} for the repair.`)
+  for (const [ingredient, amount] of Object.entries(cost)) removeFromInventory(gameState, ingredient as ItemType, amount)
+  delete stack.durability
+  return done
+}
+
+// Opens a container from the bag and rolls its contents straight into the inventory
+export const openItem = (world: World, item: ItemType): ActionResult => {
+  const table = ITEM_PROPS[item]?.opens
+  if (!table) return refuse(`The ${item} can't be opened.`)
+  if (!countItem(world.gameState.inventory, item)) return refuse(`You have no ${item}.`)
+  removeFromInventory(world.gameState, item)
+  const drops = rollLoot(table, world.gameState.day)
+  for (const drop of drops) gatherItem(world, drop.item, drop.amount)
+  return { ok: true, gained: drops }
+}
+
+// Stale food restores less; meals also give back energy and a buff
+export const eatItem = (world: World, item: ItemType): ActionResult => {
+  const { player, gameState } = world
+  const props = ITEM_PROPS[item]
+  if (!props?.edible) return refuse(`You can't eat the ${item}.`)
+  if (!countItem(gameState.inventory, item)) return refuse(`You have no ${item}.`)
+  const value = getFoodValue(gameState, item)
+  player.hunger = Math.min(100, player.hunger + Math.round((props.hungerRestore || 10) * value))
+  if (props.energyRestore) player.energy = Math.min(100, player.energy + Math.round(props.energyRestore * value))
+  if (props.buff) grantBuff(gameState, props.buff)
+  removeFromInventory(gameState, item)
+  emit(world.bus, { type: 'itemEaten', item })
+  return done
+}
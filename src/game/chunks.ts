@@ -0,0 +1,71 @@
+import { MAP_HEIGHT, MAP_WIDTH } from './constants'
+import { Tile } from './types'
+import { World } from './world'
+
+// --- Chunks ---
+// Maps are split into CHUNK_SIZE squares. Anything that changes a tile marks
+// its chunk so the renderer only rebuilds cached terrain for that chunk and
+// saving only rewrites the chunks that actually changed.
+
+export const CHUNK_SIZE = 8
+export const CHUNKS_X = Math.ceil(MAP_WIDTH / CHUNK_SIZE)
+export const CHUNKS_Y = Math.ceil(MAP_HEIGHT / CHUNK_SIZE)
+
+// Change tracking kept alongside the world; never saved
+export interface ChunkTracker {
+  revisions: Map<string, number> // Bumped on every change, for render caches
+  dirty: Set<string> // Changed since the last save
+}
+
+export const createChunkTracker = (): ChunkTracker => ({ revisions: new Map(), dirty: new Set() })
+
+export const chunkKey = (island: string, cx: number, cy: number): string => `${island}:${cx},${cy}`
+
+export const parseChunkKey = (key: string): { island: string, cx: number, cy: number } => {
+  const [island, coords] = key.split(':')
+  const [cx, cy] = coords.split(',').map(Number)
+  return { island, cx, cy }
+}
+
+const touchChunk = (tracker: ChunkTracker, key: string) => {
+  tracker.revisions.set(key, (tracker.revisions.get(key) || 0) + 1)
+  tracker.dirty.add(key)
+}
+
+// Terrain blends into its neighbours, so a tile on a chunk edge also touches the chunk next door
+export const markTileChanged = (world: World, x: number, y: number) => {
+  const island = world.gameState.island
+  const keys = new Set<string>()
+  for (const [dx, dy] of [[0, 0], [-1, 0], [1, 0], [0, -1], [0, 1]]) {
+    const tx = x + dx, ty = y + dy
+    if (tx < 0 || tx >= MAP_WIDTH || ty < 0 || ty >= MAP_HEIGHT) continue
+    keys.add(chunkKey(island, Math.floor(tx / CHUNK_SIZE), Math.floor(ty / CHUNK_SIZE)))
+  }
+  for (const key of keys) touchChunk(world.chunks, key)
+}
+
+export const markIslandChanged = (world: World, island: string) => {
+  for (let cy = 0; cy < CHUNKS_Y; cy++) {
+    for (let cx = 0; cx < CHUNKS_X; cx++) touchChunk(world.chunks, chunkKey(island, cx, cy))
+  }
+}
+
+export const getChunkRevision = (world: World, key: string): number => world.chunks.revisions.get(key) || 0
+
+// --- Chunk Data ---
+
+export const getChunkTiles = (map: Tile[][], cx: number, cy: number): Tile[][] => {
+  const x0 = cx * CHUNK_SIZE, y0 = cy * CHUNK_SIZE
+  return map.slice(y0, Math.min(y0 + CHUNK_SIZE, MAP_HEIGHT)).map(row => row.slice(x0, Math.min(x0 + CHUNK_SIZE, MAP_WIDTH)))
+}
+
+// Rebuilds a full map from its chunks; `readChunk` returns the rows of one chunk
+export const assembleMap = (readChunk: (cx: number, cy: number) => unknown[][]): unknown[][] => {
+  const map: unknown[][] = Array.from({ length: MAP_HEIGHT }, () => [])
+  for (let cy = 0; cy < CHUNKS_Y; cy++) {
+    for (let cx = 0; cx < CHUNKS_X; cx++) {
+      readChunk(cx, cy).forEach((row, i) => map[cy * CHUNK_SIZE + i]?.push(...row))
+    }
+  }
+  return map
+}
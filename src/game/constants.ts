@@ -0,0 +1,19 @@
+// --- World & Time Constants ---
+
+export const TILE_SIZE = 64 
+export const MAP_WIDTH = 50
+export const MAP_HEIGHT = 50
+
+export const REAL_SEC_PER_GAME_MIN = 1 
+export const GAME_MINS_PER_DAY = 24 * 60 
+export const NOON_MINUTES = 12 * 60 
+
+// Elevation where sand meets the shallows at mid tide, and how far the tide moves it
+export const SHORELINE_ELEVATION = 0.4
+export const TIDE_RANGE = 0.07
+
+// Chebyshev distance in tiles a crafting station can be used from
+export const STATION_RANGE = 2
+
+// Fixed simulation step
+export const TICK_MS = 1000 / 60
@@ -0,0 +1,142 @@
+import { markTileChanged } from './chunks'
+import { countItem, getTotals, removeFromInventory } from './inventory'
+import { Inventory, ITEM_PROPS } from './items'
+import { ActionResult, BuffType, Freshness, GameState, ItemType, Recipe, refuse, Tile } from './types'
+import { World } from './world'
+
+// --- Cooking ---
+// A placed campfire burns fuel for a while; only a burning one can cook. The
+// fire's end time lives on the tile, so it keeps burning down while saved.
+
+export const COOKING_RECIPES: Recipe[] = [
+  { id: 'cook_grilled_sardines', name: 'Grilled Sardines', result: 'grilled_fish', amount: 1, ingredients: { sardine: 2 }, station: 'campfire' },
+  { id: 'cook_grilled_mackerel', name: 'Grilled Mackerel', result: 'grilled_fish', amount: 1, ingredients: { mackerel: 1 }, station: 'campfire' },
+  { id: 'cook_roast_crab', name: 'Roast Crab', result: 'roast_crab', amount: 1, ingredients: { crab: 1 }, station: 'campfire' },
+  { id: 'cook_clam_chowder', name: 'Clam Chowder', result: 'clam_chowder', amount: 1, ingredients: { clam: 2, carrot: 1 }, station: 'campfire' },
+  { id: 'cook_fish_stew', name: 'Fish Stew', result: 'fish_stew', amount: 1, ingredients: { snapper: 1, carrot: 1, coconut: 1 }, station: 'campfire' },
+  { id: 'cook_seafood_feast', name: 'Seafood Feast', result: 'seafood_feast', amount: 1, ingredients: { tuna: 1, squid: 1, melon: 1 }, station: 'campfire' },
+]
+
+// Game minutes of burning each fuel adds, in the order fuel is taken from the bag
+export const FUEL_MINUTES: { [key in ItemType]?: number } = { driftwood: 45, wood: 90 }
+const MAX_FUEL_MINUTES = 8 * 60
+
+export const isBurning = (tile: Tile, totalMinutes: number): boolean => (tile.fuelUntil || 0) > totalMinutes
+
+export const getBurnMinutesLeft = (tile: Tile, totalMinutes: number): number => Math.max(0, (tile.fuelUntil || 0) - totalMinutes)
+
+// Feeds the fire one piece of `fuel`, or whichever fuel is in the bag first
+export const addFuel = (world: World, x: number, y: number, fuel?: ItemType): ActionResult => {
+  const { gameState, map } = world
+  const tile = map[y][x]
+  if (tile.placedStructure !== 'campfire') return refuse('There is no campfire there.')
+  const item = fuel ?? (Object.keys(FUEL_MINUTES) as ItemType[]).find(key => countItem(gameState.inventory, key))
+  const minutes = item && countItem(gameState.inventory, item) ? FUEL_MINUTES[item] : undefined
+  if (!item || !minutes) return refuse('The campfire needs driftwood or wood to burn.')
+  const left = getBurnMinutesLeft(tile, gameState.totalMinutes)
+  if (left + minutes > MAX_FUEL_MINUTES) return refuse('The fire is already well stocked.')
+  tile.fuelUntil = gameState.totalMinutes + left + minutes
+  markTileChanged(world, x, y)
+  removeFromInventory(gameState, item)
+  return { ok: true }
+}
+
+// Using a campfire lights it if it has gone out, then opens it for cooking
+export const tendCampfire = (world: World, x: number, y: number): ActionResult => {
+  if (!isBurning(world.map[y][x], world.gameState.totalMinutes)) {
+    const lit = addFuel(world, x, y)
+    if (!lit.ok) return lit
+  }
+  return { ok: true, cooking: { x, y } }
+}
+
+// --- Buffs ---
+
+export const BUFF_MINUTES = 4 * 60
+
+export const BUFF_NAMES: Record<BuffType, string> = {
+  well_fed: 'Well Fed', // Hunger falls half as fast
+  energized: 'Energized', // Walking costs no energy
+  warm: 'Warm', // Bad weather doesn't wear you down
+}
+
+export const hasBuff = (gameState: GameState, buff: BuffType): boolean => (gameState.buffs?.[buff] || 0) > gameState.totalMinutes
+
+export const grantBuff = (gameState: GameState, buff: BuffType) => {
+  gameState.buffs = { ...gameState.buffs, [buff]: gameState.totalMinutes + BUFF_MINUTES }
+}
+
+// --- Spoilage ---
+// Perishable food in the bag ages from when it was picked up. Rather than
+// hooking every place items are added, the stacks are checked once a game
+// minute and anything new is blended into the stack's average age. Food kept
+// in a chest doesn't age, so a chest doubles as a larder. Food that leaves the
+// bag takes its age with it: into the chest, or onto the ground when dropped.
+
+// 1 when freshly picked up, falling to 0 as it rots; always 1 for food that keeps
+export const getFreshness = (gameState: GameState, item: ItemType): number => {
+  const shelfLife = ITEM_PROPS[item]?.shelfLife
+  const record = gameState.freshness?.[item]
+  if (!shelfLife || !record) return 1
+  return Math.max(0, 1 - (gameState.totalMinutes - record.since) / shelfLife)
+}
+
+// Ageing food fills you up less, down to half at the point it rots
+export const getFoodValue = (gameState: GameState, item: ItemType): number => 0.5 + getFreshness(gameState, item) * 0.5
+
+// Brings an item's record up to the `count` carried, treating any new arrivals as fresh
+const checkFreshness = (gameState: GameState, item: ItemType, count: number): Freshness => {
+  const now = gameState.totalMinutes
+  const freshness = gameState.freshness ?? (gameState.freshness = {})
+  const record = freshness[item] ?? { since: now, count }
+  if (count > record.count) record.since = Math.round((record.since * record.count + now * (count - record.count)) / count)
+  record.count = count
+  freshness[item] = record
+  return record
+}
+
+// When the carried stack of a perishable started ageing; undefined for food that keeps
+export const getCarriedSince = (gameState: GameState, item: ItemType): number | undefined => {
+  if (!ITEM_PROPS[item]?.shelfLife) return undefined
+  return checkFreshness(gameState, item, countItem(gameState.inventory, item)).since
+}
+
+// Blends `amount` of a perishable that started ageing at `since` into the carried
+// stack's age. Call it just before the items go into the bag
+export const mixFreshness = (gameState: GameState, item: ItemType, amount: number, since: number) => {
+  if (!ITEM_PROPS[item]?.shelfLife || amount <= 0) return
+  const carried = countItem(gameState.inventory, item)
+  const record = checkFreshness(gameState, item, carried)
+  record.since = Math.round((record.since * carried + since * amount) / (carried + amount))
+  record.count = carried + amount
+}
+
+// Runs every game minute; returns anything that rotted away
+export const updateFood = (world: World): Inventory => {
+  const { gameState } = world
+  const now = gameState.totalMinutes
+  const spoiled: Inventory = {}
+  const totals = getTotals(gameState.inventory)
+
+  for (const key of Object.keys(gameState.freshness ?? {})) {
+    if (!totals[key as ItemType]) delete gameState.freshness?.[key as ItemType]
+  }
+  for (const [key, count = 0] of Object.entries(totals)) {
+    const item = key as ItemType
+    const shelfLife = ITEM_PROPS[item]?.shelfLife
+    if (!shelfLife) continue
+    const record = checkFreshness(gameState, item, count)
+    if (now - record.since >= shelfLife) {
+      spoiled[item] = count
+      removeFromInventory(gameState, item, count)
+      delete gameState.freshness?.[item]
+    }
+  }
+
+  if (gameState.buffs) {
+    for (const [buff, until] of Object.entries(gameState.buffs)) {
+      if ((until || 0) <= now) delete gameState.buffs[buff as BuffType]
+    }
+  }
+  return spoiled
+}
@@ -0,0 +1,42 @@
+import { CraftingStation, ItemType } from './types'
+
+// --- Event Bus ---
+// Game code announces what happened and anything interested (the journal,
+// achievements, the UI) listens, so the code doing the gathering or building
+// doesn't need to know who is keeping score. Listeners run during the emit.
+
+export type GameEvent =
+  | { type: 'itemGathered', item: ItemType, amount: number }
+  | { type: 'recipeCrafted', recipe: string, item: ItemType, amount: number, station?: CraftingStation }
+  | { type: 'structurePlaced', item: ItemType, x: number, y: number }
+  | { type: 'nodeHarvested', node: ItemType } // A tree chopped or a rock or ore mined
+  | { type: 'itemEaten', item: ItemType }
+  | { type: 'itemsLost', item: ItemType, amount: number } // No room for them in the bag or on the ground
+  | { type: 'dayPassed', day: number }
+  | { type: 'islandVisited', island: string, firstVisit: boolean }
+  | { type: 'questCompleted', quest: string }
+  | { type: 'achievementUnlocked', achievement: string }
+
+export type GameEventType = GameEvent['type']
+export type EventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>
+export type Listener<T extends GameEventType> = (event: EventOf<T>) => void
+
+export interface EventBus {
+  listeners: Map<GameEventType, Set<(event: GameEvent) => void>>
+}
+
+export const createEventBus = (): EventBus => ({ listeners: new Map() })
+
+// Returns a function that stops listening
+export const subscribe = <T extends GameEventType>(bus: EventBus, type: T, listener: Listener<T>): () => void => {
+  const handler = listener as (event: GameEvent) => void
+  const listeners = bus.listeners.get(type) ?? new Set()
+  listeners.add(handler)
+  bus.listeners.set(type, listeners)
+  return () => { listeners.delete(handler) }
+}
+
+export const emit = (bus: EventBus, event: GameEvent) => {
+  // Copied so a listener can unsubscribe (or subscribe) mid-emit
+  for (const listener of [...bus.listeners.get(event.type) ?? []]) listener(event)
+}
@@ -0,0 +1,118 @@
+import { markTileChanged } from './chunks'
+import { removeFromInventory } from './inventory'
+import { wearTool } from './tools'
+import { ActionResult, Crop, CropType, done, ItemType, refuse, Tile, TileType } from './types'
+import { gatherItem, World } from './world'
+
+// --- Farming ---
+
+interface CropDefinition {
+  seed: ItemType
+  produce: ItemType
+  yield: number
+  growMinutes: number // Watered minutes from planting to harvest
+}
+
+export const CROPS: Record<CropType, CropDefinition> = {
+  carrot: { seed: 'carrot_seeds', produce: 'carrot', yield: 2, growMinutes: 24 * 60 },
+  melon: { seed: 'melon_seeds', produce: 'melon', yield: 1, growMinutes: 2 * 24 * 60 },
+}
+
+export const CROP_STAGES = 4 // Seed, sprout, leafy, mature
+export const WATERING_CAN_CAPACITY = 10
+const DRY_DAYS_TO_WITHER = 2
+const TILL_ENERGY_COST = 4
+const FARM_ENERGY_COST = 1
+
+const SEED_CROPS: { [key in ItemType]?: CropType } = Object.fromEntries(
+  Object.entries(CROPS).map(([type, crop]) => [crop.seed, type as CropType])
+)
+
+export const getCropStage = (crop: Crop): number => {
+  const perStage = CROPS[crop.type].growMinutes / (CROP_STAGES - 1)
+  return Math.min(CROP_STAGES - 1, Math.floor(crop.growth / perStage))
+}
+
+export const isCropMature = (crop: Crop): boolean => getCropStage(crop) === CROP_STAGES - 1
+
+export const isWateredToday = (crop: Crop, day: number): boolean => crop.lastWateredDay === day
+
+export const isSeed = (item: ItemType): boolean => !!SEED_CROPS[item]
+
+export const canTill = (tile: Tile): boolean => {
+  return (tile.type === TileType.Grass || tile.type === TileType.Sand) && !tile.tilled && !tile.item && !tile.placedStructure
+}
+
+// Handles farming interactions on the facing tile; null means farming has nothing to do there
+export const farmInteract = (world: World, tile: Tile, activeItem: ItemType | null): ActionResult | null => {
+  const { player, gameState } = world
+
+  if (activeItem === 'hoe' && canTill(tile)) {
+    tile.tilled = true
+    player.energy = Math.max(0, player.energy - TILL_ENERGY_COST)
+    return { ok: true, broken: wearTool(world, 'hoe') }
+  }
+
+  if (activeItem === 'watering_can') {
+    if (tile.type === TileType.ShallowWater || tile.type === TileType.DeepWater) {
+      gameState.water = WATERING_CAN_CAPACITY
+      return done
+    }
+    if (tile.crop && !tile.crop.withered) {
+      if (!gameState.water) return refuse('The watering can is empty. Fill it at the water.')
+      if (isWateredToday(tile.crop, gameState.day)) return refuse('Already watered today.')
+      tile.crop.lastWateredDay = gameState.day
+      gameState.water -= 1
+      player.energy = Math.max(0, player.energy - FARM_ENERGY_COST)
+      return done
+    }
+  }
+
+  const seedCrop = activeItem ? SEED_CROPS[activeItem] : undefined
+  if (activeItem && seedCrop && tile.tilled && !tile.crop) {
+    tile.crop = { type: seedCrop, plantedDay: gameState.day, growth: 0, lastWateredDay: 0, withered: false }
+    removeFromInventory(gameState, activeItem)
+    player.energy = Math.max(0, player.energy - FARM_ENERGY_COST)
+    return done
+  }
+
+  if (tile.crop) {
+    if (tile.crop.withered) {
+      tile.crop = undefined
+      return done
+    }
+    if (!isCropMature(tile.crop)) return refuse('This crop is still growing.')
+    const definition = CROPS[tile.crop.type]
+    gatherItem(world, definition.produce, definition.yield)
+    tile.crop = undefined
+    player.energy = Math.max(0, player.energy - FARM_ENERGY_COST)
+    return done
+  }
+
+  return null
+}
+
+// Called on the regular world pass with the minutes since the last pass
+export const growCrops = (world: World, minutes: number) => {
+  const day = world.gameState.day
+  world.map.forEach((row, y) => row.forEach((tile, x) => {
+    const crop = tile.crop
+    if (crop && !crop.withered && isWateredToday(crop, day) && !isCropMature(crop)) {
+      crop.growth = Math.min(CROPS[crop.type].growMinutes, crop.growth + minutes)
+      markTileChanged(world, x, y)
+    }
+  }))
+}
+
+// Crops left dry for too long wither when a new day starts
+export const witherNeglectedCrops = (world: World) => {
+  const day = world.gameState.day
+  world.map.forEach((row, y) => row.forEach((tile, x) => {
+    const crop = tile.crop
+    if (!crop || crop.withered) return
+    if (day - Math.max(crop.lastWateredDay, crop.plantedDay) >= DRY_DAYS_TO_WITHER) {
+      crop.withered = true
+      markTileChanged(world, x, y)
+    }
+  }))
+}
@@ -0,0 +1,99 @@
+import { TICK_MS } from './constants'
+import { ItemType, TileType } from './types'
+import { gatherItem, World } from './world'
+
+// --- Fishing ---
+
+export type FishingPhase = 'waiting' | 'bite'
+
+export interface FishingState {
+  x: number
+  y: number
+  phase: FishingPhase
+  ticksLeft: number
+}
+
+interface CatchEntry {
+  item: ItemType
+  weight: number
+  time?: 'day' | 'night'
+}
+
+type WaterDepth = 'shallow' | 'deep'
+
+// Weights are relative within a table; entries with a `time` only bite then
+export const CATCH_TABLES: Record<WaterDepth, CatchEntry[]> = {
+  shallow: [
+    { item: 'sardine', weight: 50 },
+    { item: 'mackerel', weight: 30 },
+    { item: 'snapper', weight: 15, time: 'day' },
+    { item: 'squid', weight: 10, time: 'night' },
+  ],
+  deep: [
+    { item: 'mackerel', weight: 25 },
+    { item: 'snapper', weight: 30 },
+    { item: 'tuna', weight: 15, time: 'day' },
+    { item: 'squid', weight: 30, time: 'night' },
+  ],
+}
+
+export const CAST_ENERGY_COST = 5
+export const REEL_ENERGY_COST = 3
+const MIN_WAIT_MS = 2000
+const MAX_WAIT_MS = 6000
+const BITE_WINDOW_MS = 750
+
+const isDaytime = (timeOfDay: number) => timeOfDay >= 6 * 60 && timeOfDay < 18 * 60
+
+export const getWaterDepth = (type: TileType): WaterDepth | null => {
+  if (type === TileType.ShallowWater) return 'shallow'
+  if (type === TileType.DeepWater) return 'deep'
+  return null
+}
+
+export const rollCatch = (depth: WaterDepth, timeOfDay: number, roll: number): ItemType => {
+  const time = isDaytime(timeOfDay) ? 'day' : 'night'
+  const entries = CATCH_TABLES[depth].filter(entry => !entry.time || entry.time === time)
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0)
+  let pick = roll * total
+  for (const entry of entries) {
+    pick -= entry.weight
+    if (pick < 0) return entry.item
+  }
+  return entries[entries.length - 1].item
+}
+
+export const castLine = (world: World, x: number, y: number) => {
+  const waitMs = MIN_WAIT_MS + Math.random() * (MAX_WAIT_MS - MIN_WAIT_MS)
+  world.fishing = { x, y, phase: 'waiting', ticksLeft: Math.round(waitMs / TICK_MS) }
+  world.player.energy = Math.max(0, world.player.energy - CAST_ENERGY_COST)
+}
+
+// Returns what was caught, or null if the line came up empty
+export const reelIn = (world: World): ItemType | null => {
+  const fishing = world.fishing
+  world.fishing = null
+  if (!fishing || fishing.phase !== 'bite') return null
+
+  const depth = getWaterDepth(world.map[fishing.y][fishing.x].type)
+  if (!depth) return null
+  const item = rollCatch(depth, world.gameState.timeOfDay, Math.random())
+  gatherItem(world, item)
+  world.player.energy = Math.max(0, world.player.energy - REEL_ENERGY_COST)
+  return item
+}
+
+// Counts down the wait and bite window; returns the phase change this tick, if any
+export const updateFishing = (world: World): 'bite' | 'escaped' | null => {
+  const fishing = world.fishing
+  if (!fishing) return null
+  fishing.ticksLeft -= 1
+  if (fishing.ticksLeft > 0) return null
+  if (fishing.phase === 'waiting') {
+    fishing.phase = 'bite'
+    fishing.ticksLeft = Math.round(BITE_WINDOW_MS / TICK_MS)
+    return 'bite'
+  }
+  world.fishing = null
+  return 'escaped'
+}
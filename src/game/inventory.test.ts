@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { addStack, addToInventory, countItem, createInventory, getStackLimit, HOTBAR_SIZE, INVENTORY_SIZE, moveStack, removeFromInventory } from './inventory'
+import { GameState } from './types'
+import { createInitialGameState } from './world'
+
+const WOOD_STACK = getStackLimit('wood')
+
+let gameState: GameState
+beforeEach(() => {
+  gameState = createInitialGameState('TEST')
+})
+
+describe('addToInventory', () => {
+  it('tops up existing stacks before starting new ones', () => {
+    addToInventory(gameState, 'wood', WOOD_STACK - 5)
+    addToInventory(gameState, 'wood', 10)
+    expect(gameState.inventory[HOTBAR_SIZE]).toEqual({ item: 'wood', count: WOOD_STACK })
+    expect(gameState.inventory[HOTBAR_SIZE + 1]).toEqual({ item: 'wood', count: 5 })
+  })
+
+  it('puts tools on the hotbar and materials in the bag', () => {
+    addToInventory(gameState, 'axe')
+    addToInventory(gameState, 'stone')
+    expect(gameState.inventory[0]?.item).toBe('axe')
+    expect(gameState.inventory[HOTBAR_SIZE]?.item).toBe('stone')
+  })
+
+  it('returns what does not fit', () => {
+    expect(addToInventory(gameState, 'wood', INVENTORY_SIZE * WOOD_STACK + 3)).toBe(3)
+    expect(countItem(gameState.inventory, 'wood')).toBe(INVENTORY_SIZE * WOOD_STACK)
+  })
+})
+
+describe('addStack', () => {
+  it('keeps the wear of the stack it adds', () => {
+    expect(addStack(gameState, { item: 'axe', count: 1, durability: 4 })).toBe(true)
+    expect(gameState.inventory[0]).toEqual({ item: 'axe', count: 1, durability: 4 })
+  })
+
+  it('never merges into another stack', () => {
+    addToInventory(gameState, 'wood', 5)
+    addStack(gameState, { item: 'wood', count: 5 })
+    expect(gameState.inventory.filter(stack => stack?.item === 'wood')).toHaveLength(2)
+  })
+
+  it('refuses when every slot is taken', () => {
+    gameState.inventory = createInventory().map(() => ({ item: 'stone', count: 20 }))
+    expect(addStack(gameState, { item: 'axe', count: 1 })).toBe(false)
+  })
+})
+
+describe('removeFromInventory', () => {
+  it('takes from the last stacks first', () => {
+    addToInventory(gameState, 'wood', WOOD_STACK + 10)
+    removeFromInventory(gameState, 'wood', 12)
+    expect(gameState.inventory[HOTBAR_SIZE]).toEqual({ item: 'wood', count: WOOD_STACK - 2 })
+    expect(gameState.inventory[HOTBAR_SIZE + 1]).toBeNull()
+  })
+
+  it('stops at what there is', () => {
+    addToInventory(gameState, 'wood', 3)
+    removeFromInventory(gameState, 'wood', 10)
+    expect(countItem(gameState.inventory, 'wood')).toBe(0)
+  })
+})
+
+describe('moveStack', () => {
+  it('moves a whole stack to an empty slot', () => {
+    addToInventory(gameState, 'wood', 7)
+    expect(moveStack(gameState, HOTBAR_SIZE, 20)).toEqual({ ok: true })
+    expect(gameState.inventory[HOTBAR_SIZE]).toBeNull()
+    expect(gameState.inventory[20]).toEqual({ item: 'wood', count: 7 })
+  })
+
+  it('splits part of a stack off', () => {
+    addToInventory(gameState, 'wood', 7)
+    moveStack(gameState, HOTBAR_SIZE, 20, 3)
+    expect(gameState.inventory[HOTBAR_SIZE]).toEqual({ item: 'wood', count: 4 })
+    expect(gameState.inventory[20]).toEqual({ item: 'wood', count: 3 })
+  })
+
+  it('merges onto the same item up to the stack limit', () => {
+    gameState.inventory[HOTBAR_SIZE] = { item: 'wood', count: WOOD_STACK - 5 }
+    gameState.inventory[20] = { item: 'wood', count: 10 }
+    moveStack(gameState, 20, HOTBAR_SIZE)
+    expect(gameState.inventory[HOTBAR_SIZE]).toEqual({ item: 'wood', count: WOOD_STACK })
+    expect(gameState.inventory[20]).toEqual({ item: 'wood', count: 5 })
+  })
+
+  it('swaps with another item', () => {
+    gameState.inventory[0] = { item: 'axe', count: 1, durability: 3 }
+    gameState.inventory[1] = { item: 'hoe', count: 1 }
+    moveStack(gameState, 0, 1)
+    expect(gameState.inventory.slice(0, 2)).toEqual([{ item: 'hoe', count: 1 }, { item: 'axe', count: 1, durability: 3 }])
+  })
+
+  it('refuses moves that cannot happen', () => {
+    gameState.inventory[HOTBAR_SIZE] = { item: 'wood', count: WOOD_STACK }
+    gameState.inventory[20] = { item: 'wood', count: 5 }
+    gameState.inventory[21] = { item: 'stone', count: 5 }
+    expect(moveStack(gameState, 22, 20)).toEqual({ ok: false, reason: 'There is nothing in that slot.' })
+    expect(moveStack(gameState, 20, 20)).toEqual({ ok: false, reason: 'There is no other slot there.' })
+    expect(moveStack(gameState, 20, INVENTORY_SIZE)).toEqual({ ok: false, reason: 'There is no other slot there.' })
+    expect(moveStack(gameState, 20, HOTBAR_SIZE)).toEqual({ ok: false, reason: 'That wood stack is already full.' })
+    expect(moveStack(gameState, 20, 21, 2).ok).toBe(false)
+    expect(gameState.inventory[20]).toEqual({ item: 'wood', count: 5 })
+    expect(gameState.inventory[21]).toEqual({ item: 'stone', count: 5 })
+  })
+
+  it('clears a pin when another item is put in its slot', () => {
+    gameState.pinned = Array.from({ length: HOTBAR_SIZE }, () => null)
+    gameState.pinned[0] = 'axe'
+    gameState.inventory[HOTBAR_SIZE] = { item: 'wood', count: 5 }
+    moveStack(gameState, HOTBAR_SIZE, 0)
+    expect(gameState.pinned[0]).toBeNull()
+  })
+})
@@ -0,0 +1,139 @@
+import { Inventory, ITEM_PROPS } from './items'
+import { ActionResult, done, GameState, ItemCategory, ItemStack, ItemType, refuse } from './types'
+
+// --- Inventory Slots ---
+// The player carries a fixed row of slots: the first HOTBAR_SIZE are the
+// hotbar (keys 1-9), the rest the bag. Each slot holds one stack up to the
+// item's stack limit, so the slots are also the carry capacity. Stacks stay
+// where they are put; nothing shuffles along when another item runs out.
+
+export type InventorySlots = (ItemStack | null)[]
+
+export const HOTBAR_SIZE = 9
+export const INVENTORY_SIZE = HOTBAR_SIZE + 18
+
+const STACK_LIMITS: Record<ItemCategory, number> = { tool: 1, structure: 10, seed: 30, resource: 20 }
+
+export const getStackLimit = (item: ItemType): number => {
+  const props = ITEM_PROPS[item]
+  return props?.stackSize ?? STACK_LIMITS[props?.category ?? 'resource']
+}
+
+export const createInventory = (): InventorySlots => Array.from({ length: INVENTORY_SIZE }, () => null)
+
+export const countItem = (slots: InventorySlots, item: ItemType): number => {
+  return slots.reduce((total, stack) => stack?.item === item ? total + stack.count : total, 0)
+}
+
+// Totals per item, for recipes and anything else that doesn't care which slot things are in
+export const getTotals = (slots: InventorySlots): Inventory => {
+  const totals: Inventory = {}
+  for (const stack of slots) {
+    if (stack) totals[stack.item] = (totals[stack.item] || 0) + stack.count
+  }
+  return totals
+}
+
+// Tools, structures and seeds belong on the hotbar; food and materials in the bag
+export const isHotbarItem = (item: ItemType): boolean => {
+  const category = ITEM_PROPS[item]?.category
+  return category === 'tool' || category === 'structure' || category === 'seed'
+}
+
+const getPin = (gameState: GameState, index: number): ItemType | null => gameState.pinned?.[index] ?? null
+
+// Empty slots the item may start a stack in: any pinned for it, then its own section
+const getFreeSlots = (gameState: GameState, item: ItemType): number[] => {
+  const rank = (index: number) => getPin(gameState, index) === item ? 0 : (index < HOTBAR_SIZE) === isHotbarItem(item) ? 1 : 2
+  return gameState.inventory
+    .map((_, index) => index)
+    .filter(index => !gameState.inventory[index] && (getPin(gameState, index) ?? item) === item)
+    .sort((a, b) => rank(a) - rank(b) || a - b)
+}
+
+// How many more of the item could be carried
+export const getRoomFor = (gameState: GameState, item: ItemType): number => {
+  const limit = getStackLimit(item)
+  const topUp = gameState.inventory.reduce((room, stack) => stack?.item === item ? room + Math.max(0, limit - stack.count) : room, 0)
+  return topUp + getFreeSlots(gameState, item).length * limit
+}
+
+// Tops up existing stacks, then starts new ones. Returns how many didn't fit
+export const addToInventory = (gameState: GameState, item: ItemType, amount = 1): number => {
+  const limit = getStackLimit(item)
+  let left = amount
+  for (const stack of gameState.inventory) {
+    if (left <= 0) break
+    if (stack?.item !== item || stack.count >= limit) continue
+    const added = Math.min(left, limit - stack.count)
+    stack.count += added
+    left -= added
+  }
+  for (const index of getFreeSlots(gameState, item)) {
+    if (left <= 0) break
+    const count = Math.min(left, limit)
+    gameState.inventory[index] = { item, count }
+    left -= count
+  }
+  return left
+}
+
+// Puts a whole stack, wear and all, in a free slot of its own. Returns false if there is none
+export const addStack = (gameState: GameState, stack: ItemStack): boolean => {
+  const index = getFreeSlots(gameState, stack.item)[0]
+  if (index === undefined) return false
+  gameState.inventory[index] = stack
+  return true
+}
+
+// Takes from the last stacks first, so the ones at the front of the hotbar last longest
+export const removeFromInventory = (gameState: GameState, item: ItemType, amount = 1) => {
+  const slots = gameState.inventory
+  let left = amount
+  for (let index = slots.length - 1; index >= 0 && left > 0; index--) {
+    const stack = slots[index]
+    if (stack?.item !== item) continue
+    const taken = Math.min(left, stack.count)
+    stack.count -= taken
+    left -= taken
+    if (stack.count <= 0) slots[index] = null
+  }
+}
+
+// Moves `amount` (by default the whole stack) between slots. Onto the same item it
+// merges up to the stack limit; a whole stack dropped onto another item swaps with it
+export const moveStack = (gameState: GameState, from: number, to: number, amount?: number): ActionResult => {
+  const slots = gameState.inventory
+  const stack = slots[from]
+  if (!stack) return refuse('There is nothing in that slot.')
+  if (from === to || to < 0 || to >= slots.length) return refuse('There is no other slot there.')
+  const moving = Math.min(amount ?? stack.count, stack.count)
+  const target = slots[to]
+  if (target && target.item !== stack.item) {
+    if (moving < stack.count) return refuse(`Split the ${stack.item} onto an empty slot or another ${stack.item} stack.`)
+    slots[to] = stack
+    slots[from] = target
+  } else {
+    const moved = Math.min(moving, getStackLimit(stack.item) - (target?.count || 0))
+    if (moved <= 0) return refuse(`That ${stack.item} stack is already full.`)
+    if (target) target.count += moved
+    else slots[to] = { ...stack, count: moved }
+    stack.count -= moved
+    if (stack.count <= 0) slots[from] = null
+  }
+  // A pin gives way to whatever the player deliberately put in its slot
+  for (const index of [from, to]) {
+    const pin = getPin(gameState, index)
+    const item = slots[index]?.item
+    if (pin && item && item !== pin && gameState.pinned) gameState.pinned[index] = null
+  }
+  return done
+}
+
+// Pins a hotbar slot to the item in it, or unpins it
+export const togglePin = (gameState: GameState, index: number) => {
+  if (index < 0 || index >= HOTBAR_SIZE) return
+  const pinned = gameState.pinned ?? Array.from({ length: HOTBAR_SIZE }, () => null)
+  pinned[index] = pinned[index] ? null : gameState.inventory[index]?.item ?? null
+  gameState.pinned = pinned
+}
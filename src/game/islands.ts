@@ -0,0 +1,136 @@
+import { markIslandChanged } from './chunks'
+import { MAP_HEIGHT, MAP_WIDTH } from './constants'
+import { emit } from './events'
+import { countItem } from './inventory'
+import { LootTableId } from './loot'
+import { createRng, deriveSeed, hashSeed } from './rng'
+import { ActionResult, Direction, done, refuse, Tile, TileType } from './types'
+import { spawnWildlife } from './wildlife'
+import { generateMap, getPlayerTile, isInBounds, isSolid, World } from './world'
+
+// --- Islands ---
+// The ocean is a grid of 50x50 island maps keyed by their "x,y" position.
+// Sailing off the edge of one map arrives at the facing edge of the next;
+// islands are generated on first visit and only simulated while the player is there.
+
+export const HOME_ISLAND = '0,0'
+
+export type Biome = 'tropical' | 'rocky' | 'jungle' | 'atoll'
+
+export interface BiomeDefinition {
+  name: string
+  size: number // Island radius as a share of the map
+  lagoons: number // Noise threshold below which inland tiles become lagoon
+  trees: number
+  rocks: number
+  ore: number
+  tide: LootTableId
+}
+
+export const BIOMES: Record<Biome, BiomeDefinition> = {
+  tropical: { name: 'Tropical Island', size: 1, lagoons: 0.25, trees: 0.2, rocks: 0.1, ore: 0.03, tide: 'tide' },
+  rocky: { name: 'Rocky Isle', size: 0.85, lagoons: 0.15, trees: 0.06, rocks: 0.25, ore: 0.1, tide: 'tide' },
+  jungle: { name: 'Jungle Island', size: 0.95, lagoons: 0.2, trees: 0.45, rocks: 0.04, ore: 0.01, tide: 'tide' },
+  atoll: { name: 'Atoll', size: 0.75, lagoons: 0.5, trees: 0.15, rocks: 0.02, ore: 0, tide: 'reef_tide' }
+}
+
+const FAR_BIOMES: Biome[] = ['rocky', 'jungle', 'atoll']
+
+export const islandKey = (x: number, y: number): string => `${x},${y}`
+
+export const parseIslandKey = (key: string): { x: number, y: number } => {
+  const [x, y] = key.split(',').map(Number)
+  return { x: x || 0, y: y || 0 }
+}
+
+// Base of every random stream on an island. Home keeps the plain seed hash so
+// existing seeds still make the same island and the same tides
+export const getIslandSeed = (seed: string, island: string): number => {
+  if (island === HOME_ISLAND) return hashSeed(seed)
+  const { x, y } = parseIslandKey(island)
+  return deriveSeed(hashSeed(seed), x, y, 1)
+}
+
+// Home is always the tropical island the player washed up on; the rest are rolled from the seed
+export const getIslandBiome = (seed: string, island: string): Biome => {
+  if (island === HOME_ISLAND) return 'tropical'
+  const { x, y } = parseIslandKey(island)
+  const roll = createRng(deriveSeed(hashSeed(seed), x, y))()
+  return FAR_BIOMES[Math.floor(roll * FAR_BIOMES.length)]
+}
+
+export const getIslandName = (seed: string, island: string): string => {
+  return island === HOME_ISLAND ? 'Home' : `${BIOMES[getIslandBiome(seed, island)].name} (${island})`
+}
+
+// Swaps the active map, generating the island if it has never been visited
+export const setIsland = (world: World, island: string) => {
+  const { gameState, islands } = world
+  if (!islands[island]) {
+    islands[island] = generateMap(gameState.seed, island)
+    markIslandChanged(world, island)
+  }
+  gameState.island = island
+  world.map = islands[island]
+  world.fishing = null
+  world.path = null
+  // Wildlife doesn't follow the player between islands; each landing finds a fresh lot
+  world.entities = []
+  spawnWildlife(world, true)
+}
+
+// --- Raft ---
+
+const isOpenWater = (tile: Tile): boolean => {
+  return (tile.type === TileType.DeepWater || tile.type === TileType.ShallowWater) && !tile.item && !tile.placedStructure
+}
+
+export const boardRaft = (world: World): ActionResult => {
+  const { player, gameState } = world
+  if (!countItem(gameState.inventory, 'raft')) return refuse('You have no raft.')
+  if (getPlayerTile(world).type !== TileType.ShallowWater) return refuse('Wade into the shallows to launch the raft.')
+  player.onRaft = true
+  return done
+}
+
+export const leaveRaft = (world: World): ActionResult => {
+  if (getPlayerTile(world).type === TileType.DeepWater) return refuse('Paddle into the shallows to leave the raft.')
+  world.player.onRaft = undefined
+  return done
+}
+
+// Aboard the raft only open water can be entered; on foot deep water stops you
+export const canEnter = (world: World, tile: Tile): boolean => {
+  return world.player.onRaft ? isOpenWater(tile) : !isSolid(tile)
+}
+
+// Sails off the map edge into the neighbouring island, arriving on the opposite edge
+export const sailToNextIsland = (world: World, direction: Direction) => {
+  const { player, gameState } = world
+  const from = parseIslandKey(gameState.island)
+  const x = Math.round(player.x), y = Math.round(player.y)
+  let next = from, arriveX = x, arriveY = y
+  switch (direction) {
+    case 'up': next = { x: from.x, y: from.y - 1 }; arriveY = MAP_HEIGHT - 1; break;
+    case 'down': next = { x: from.x, y: from.y + 1 }; arriveY = 0; break;
+    case 'left': next = { x: from.x - 1, y: from.y }; arriveX = MAP_WIDTH - 1; break;
+    case 'right': next = { x: from.x + 1, y: from.y }; arriveX = 0; break;
+  }
+  const island = islandKey(next.x, next.y)
+  const firstVisit = !world.islands[island]
+  setIsland(world, island)
+  emit(world.bus, { type: 'islandVisited', island, firstVisit })
+
+  // Slide along the arrival edge if something is in the way
+  const horizontal = direction === 'up' || direction === 'down'
+  for (let offset = 0; offset < Math.max(MAP_WIDTH, MAP_HEIGHT); offset++) {
+    for (const sign of [1, -1]) {
+      const tx = horizontal ? arriveX + offset * sign : arriveX
+      const ty = horizontal ? arriveY : arriveY + offset * sign
+      if (isInBounds(tx, ty) && isOpenWater(world.map[ty][tx])) {
+        Object.assign(player, { x: tx, y: ty, targetX: tx, targetY: ty, isMoving: false })
+        return
+      }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { LootTableId } from './loot'
+import { BuffType, CraftingStation, ItemCategory, ItemType, Recipe } from './types'
+
+// --- Item Definitions ---
+
+export type Inventory = { [key in ItemType]?: number }
+
+export const RECIPES: Recipe[] = [
+  { id: 'craft_driftwood_axe', name: 'Driftwood Axe', result: 'driftwood_axe', amount: 1, ingredients: { driftwood: 3 } },
+  { id: 'craft_driftwood_pickaxe', name: 'Driftwood Pickaxe', result: 'driftwood_pickaxe', amount: 1, ingredients: { driftwood: 4 } },
+  { id: 'craft_axe', name: 'Axe', result: 'axe', amount: 1, ingredients: { metal: 1, driftwood: 1 } },
+  { id: 'craft_wall_wood', name: 'Wooden Wall', result: 'wall_wood', amount: 1, ingredients: { wood: 2 } },
+  { id: 'craft_hammer', name: 'Hammer', result: 'hammer', amount: 1, ingredients: { wood: 2, metal: 1 } },
+  { id: 'craft_workbench', name: 'Workbench', result: 'workbench', amount: 1, ingredients: { driftwood: 4, metal: 1 } },
+  { id: 'craft_fishing_rod', name: 'Fishing Rod', result: 'fishing_rod', amount: 1, ingredients: { driftwood: 2, metal: 1 }, station: 'workbench' },
+  { id: 'craft_hoe', name: 'Hoe', result: 'hoe', amount: 1, ingredients: { wood: 1, metal: 1 }, station: 'workbench' },
+  { id: 'craft_chest', name: 'Chest', result: 'chest', amount: 1, ingredients: { wood: 6 }, station: 'workbench' },
+  { id: 'craft_pickaxe', name: 'Pickaxe', result: 'pickaxe', amount: 1, ingredients: { wood: 1, metal: 2 }, station: 'workbench' },
+  { id: 'craft_furnace', name: 'Furnace', result: 'furnace', amount: 1, ingredients: { stone: 6, wood: 2 }, station: 'workbench' },
+  { id: 'craft_raft', name: 'Raft', result: 'raft', amount: 1, ingredients: { wood: 8, driftwood: 4 }, station: 'workbench' },
+  { id: 'craft_watering_can', name: 'Watering Can', result: 'watering_can', amount: 1, ingredients: { metal: 2 }, station: 'furnace' },
+  { id: 'craft_campfire', name: 'Campfire', result: 'campfire', amount: 1, ingredients: { stone: 3, driftwood: 2 } }
+]
+
+export const STATION_NAMES: { [key in CraftingStation]: string } = {
+  workbench: 'Workbench',
+  furnace: 'Furnace',
+  campfire: 'Campfire'
+}
+
+export interface ItemProps {
+  edible?: boolean
+  hungerRestore?: number
+  energyRestore?: number
+  buff?: BuffType // Granted for a while on eating
+  shelfLife?: number // Game minutes a carried stack keeps before it rots
+  placeable?: boolean
+  hp?: number
+  container?: boolean
+  opens?: LootTableId
+  stackSize?: number // Most items go by their category, see inventory.ts
+  category: ItemCategory
+}
+
+const DAY = 24 * 60
+
+export const ITEM_PROPS: { [key in ItemType]?: ItemProps } = {
+  axe: { category: 'tool' },
+  driftwood_axe: { category: 'tool' },
+  pickaxe: { category: 'tool' },
+  driftwood_pickaxe: { category: 'tool' },
+  hammer: { category: 'tool' },
+  fishing_rod: { category: 'tool' },
+  hoe: { category: 'tool' },
+  watering_can: { category: 'tool' },
+  raft: { category: 'tool' },
+  carrot_seeds: { category: 'seed' },
+  melon_seeds: { category: 'seed' },
+  wall_wood: { placeable: true, hp: 3, category: 'structure' },
+  workbench: { placeable: true, hp: 4, category: 'structure' },
+  furnace: { placeable: true, hp: 6, category: 'structure' },
+  chest: { placeable: true, hp: 3, container: true, category: 'structure' },
+  campfire: { placeable: true, hp: 2, category: 'structure' },
+  coconut: { edible: true, hungerRestore: 20, category: 'resource' },
+  sardine: { edible: true, hungerRestore: 10, shelfLife: DAY, category: 'resource' },
+  mackerel: { edible: true, hungerRestore: 18, shelfLife: DAY, category: 'resource' },
+  snapper: { edible: true, hungerRestore: 25, shelfLife: DAY, category: 'resource' },
+  squid: { edible: true, hungerRestore: 30, shelfLife: DAY, category: 'resource' },
+  tuna: { edible: true, hungerRestore: 40, shelfLife: DAY, category: 'resource' },
+  carrot: { edible: true, hungerRestore: 15, shelfLife: 4 * DAY, category: 'resource' },
+  melon: { edible: true, hungerRestore: 35, shelfLife: 3 * DAY, category: 'resource' },
+  clam: { edible: true, hungerRestore: 12, shelfLife: DAY, category: 'resource' },
+  crab: { edible: true, hungerRestore: 15, shelfLife: DAY, category: 'resource' },
+  // Meals, cooked at a campfire
+  grilled_fish: { edible: true, hungerRestore: 35, energyRestore: 10, shelfLife: 2 * DAY, category: 'resource' },
+  roast_crab: { edible: true, hungerRestore: 30, energyRestore: 15, buff: 'energized', shelfLife: 2 * DAY, category: 'resource' },
+  clam_chowder: { edible: true, hungerRestore: 45, energyRestore: 15, buff: 'warm', shelfLife: 2 * DAY, category: 'resource' },
+  fish_stew: { edible: true, hungerRestore: 55, energyRestore: 20, buff: 'warm', shelfLife: 2 * DAY, category: 'resource' },
+  seafood_feast: { edible: true, hungerRestore: 80, energyRestore: 30, buff: 'well_fed', shelfLife: 2 * DAY, category: 'resource' },
+  driftwood: { stackSize: 30, category: 'resource' },
+  wood: { stackSize: 30, category: 'resource' },
+  metal: { category: 'resource' },
+  stone: { stackSize: 30, category: 'resource' },
+  crate: { opens: 'crate', stackSize: 5, category: 'resource' },
+  tree: { category: 'resource' }, // Should not be in inv usually
+  tree_stump: { category: 'resource' }, // Should not be in inv usually
+  rock: { category: 'resource' }, // Should not be in inv usually
+  ore: { category: 'resource' }, // Should not be in inv usually
+  rubble: { category: 'resource' } // Should not be in inv usually
+}
+
+// --- Inventory Helpers ---
+
+export const addItem = (inventory: Inventory, item: ItemType, amount = 1) => {
+  inventory[item] = (inventory[item] || 0) + amount
+}
+
+// Removes up to `amount`, dropping the key once the stack is empty
+export const removeItem = (inventory: Inventory, item: ItemType, amount = 1) => {
+  inventory[item] = (inventory[item] || 0) - amount
+  if ((inventory[item] || 0) <= 0) delete inventory[item]
+}
+
+// Share of a structure's recipe handed back when it is deconstructed
+export const REFUND_RATIO = 0.5
+
+export const getRefund = (item: ItemType): Inventory => {
+  const refund: Inventory = {}
+  const recipe = RECIPES.find(r => r.result === item)
+  if (!recipe) return refund
+  for (const [ingredient, amount] of Object.entries(recipe.ingredients)) {
+    const back = Math.floor((amount || 0) * REFUND_RATIO / recipe.amount)
+    if (back > 0) refund[ingredient as ItemType] = back
+  }
+  return refund
+}
+
+export const hasIngredients = (inventory: Inventory, recipe: Pick<Recipe, 'ingredients'>): boolean => {
+  return Object.entries(recipe.ingredients).every(([item, amount]) => (inventory[item as ItemType] || 0) >= amount)
+}
+
+// How many of each ingredient the inventory is short by
+export const getMissingIngredients = (inventory: Inventory, recipe: Pick<Recipe, 'ingredients'>): Inventory => {
+  const missing: Inventory = {}
+  for (const [item, amount] of Object.entries(recipe.ingredients)) {
+    const short = amount - (inventory[item as ItemType] || 0)
+    if (short > 0) missing[item as ItemType] = short
+  }
+  return missing
+}
+
+// "2 wood, 1 stone"
+export const formatItems = (items: Inventory): string => {
+  return Object.entries(items).map(([item, amount]) => `${amount} ${item}`).join(', ')
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { getDropRates, LOOT_TABLES, LootTableId, rollLoot } from './loot'
+
+const TABLE_IDS = Object.keys(LOOT_TABLES) as LootTableId[]
+
+describe('getDropRates', () => {
+  it('lists guaranteed and rolled drops of the same item as separate rows', () => {
+    const metal = getDropRates('ore', 1).filter(rate => rate.item === 'metal')
+    expect(metal).toEqual([
+      { item: 'metal', rarity: 'common', chancePerRoll: 1, expectedAmount: 1, guaranteed: true },
+      { item: 'metal', rarity: 'uncommon', chancePerRoll: 0.5, expectedAmount: 0.75 },
+    ])
+  })
+
+  it('gives rolled chances that add up to at most one per roll', () => {
+    for (const id of TABLE_IDS) {
+      for (const day of [1, 10, 100]) {
+        const rolled = getDropRates(id, day).filter(rate => !rate.guaranteed)
+        expect(rolled.reduce((sum, rate) => sum + rate.chancePerRoll, 0)).toBeLessThanOrEqual(1 + 1e-9)
+      }
+    }
+  })
+
+  it('favours rarer drops as the days go by', () => {
+    const crateChance = (day: number) => getDropRates('tide', day).find(rate => rate.item === 'crate')!.chancePerRoll
+    expect(crateChance(20)).toBeGreaterThan(crateChance(1))
+    expect(crateChance(1000)).toBeCloseTo(crateChance(31))
+  })
+
+  it('gives no chance to drops that are not unlocked yet', () => {
+    const rod = (day: number) => getDropRates('storm_tide', day).find(rate => rate.item === 'fishing_rod')!.chancePerRoll
+    expect(rod(1)).toBe(0)
+    expect(rod(3)).toBeGreaterThan(0)
+  })
+
+  it('matches what rollLoot hands out', () => {
+    // Always lands on the last entry, and on the top of its amount range
+    const drops = rollLoot('ore', 1, () => 0.999)
+    expect(drops).toEqual([{ item: 'metal', amount: 3 }, { item: 'stone', amount: 1 }])
+  })
+})
@@ -0,0 +1,171 @@
+import { Rng } from './rng'
+import { ItemType } from './types'
+
+// --- Loot Tables ---
+
+export type Rarity = 'common' | 'uncommon' | 'rare' | 'legendary'
+
+export interface LootDrop {
+  item: ItemType
+  amount: number
+}
+
+// `item: null` is an explicit "nothing" result so tables can control their hit rate
+export interface LootEntry {
+  item: ItemType | null
+  weight: number
+  rarity: Rarity
+  min?: number
+  max?: number
+  minDay?: number
+}
+
+export interface LootTable {
+  rolls: number
+  entries: LootEntry[]
+  guaranteed?: LootDrop[]
+}
+
+export type LootTableId = 'tide' | 'storm_tide' | 'reef_tide' | 'crate' | 'tree' | 'rock' | 'ore'
+
+// Extra weight per day survived, so later tides favour rarer goods
+const RARITY_GROWTH: Record<Rarity, number> = {
+  common: 0,
+  uncommon: 0.04,
+  rare: 0.08,
+  legendary: 0.12,
+}
+const MAX_SCALED_DAY = 30
+
+export const LOOT_TABLES: Record<LootTableId, LootTable> = {
+  // Rolled once per dry sand tile each morning
+  tide: {
+    rolls: 1,
+    entries: [
+      { item: null, weight: 70, rarity: 'common' },
+      { item: 'driftwood', weight: 15, rarity: 'common' },
+      { item: 'carrot_seeds', weight: 2, rarity: 'uncommon' },
+      { item: 'melon_seeds', weight: 1, rarity: 'rare' },
+      { item: 'metal', weight: 10, rarity: 'uncommon' },
+      { item: 'crate', weight: 2, rarity: 'rare' },
+    ],
+  },
+  // Rolled instead of `tide` the morning after a storm
+  storm_tide: {
+    rolls: 1,
+    entries: [
+      { item: null, weight: 35, rarity: 'common' },
+      { item: 'driftwood', weight: 25, rarity: 'common' },
+      { item: 'carrot_seeds', weight: 5, rarity: 'uncommon' },
+      { item: 'melon_seeds', weight: 4, rarity: 'rare' },
+      { item: 'metal', weight: 18, rarity: 'uncommon' },
+      { item: 'crate', weight: 10, rarity: 'rare' },
+      { item: 'fishing_rod', weight: 1, rarity: 'legendary', minDay: 3 },
+    ],
+  },
+  // Atolls sit on a reef that snags more wreckage
+  reef_tide: {
+    rolls: 1,
+    entries: [
+      { item: null, weight: 55, rarity: 'common' },
+      { item: 'driftwood', weight: 15, rarity: 'common' },
+      { item: 'carrot_seeds', weight: 3, rarity: 'uncommon' },
+      { item: 'melon_seeds', weight: 4, rarity: 'rare' },
+      { item: 'metal', weight: 15, rarity: 'uncommon' },
+      { item: 'crate', weight: 8, rarity: 'rare' },
+    ],
+  },
+  crate: {
+    rolls: 3,
+    entries: [
+      { item: 'driftwood', weight: 30, rarity: 'common', min: 1, max: 3 },
+      { item: 'wood', weight: 20, rarity: 'common', min: 1, max: 2 },
+      { item: 'coconut', weight: 10, rarity: 'common' },
+      { item: 'metal', weight: 20, rarity: 'uncommon', min: 1, max: 2 },
+      { item: 'carrot_seeds', weight: 15, rarity: 'uncommon', min: 1, max: 3 },
+      { item: 'melon_seeds', weight: 8, rarity: 'rare', min: 1, max: 2 },
+      { item: 'fishing_rod', weight: 2, rarity: 'legendary', minDay: 3 },
+      { item: 'watering_can', weight: 2, rarity: 'legendary', minDay: 3 },
+    ],
+  },
+  tree: {
+    rolls: 1,
+    guaranteed: [{ item: 'wood', amount: 2 }],
+    entries: [
+      { item: null, weight: 15, rarity: 'common' },
+      { item: 'coconut', weight: 85, rarity: 'common', min: 1, max: 2 },
+    ],
+  },
+  rock: {
+    rolls: 1,
+    guaranteed: [{ item: 'stone', amount: 2 }],
+    entries: [
+      { item: null, weight: 80, rarity: 'common' },
+      { item: 'metal', weight: 20, rarity: 'uncommon' },
+    ],
+  },
+  ore: {
+    rolls: 1,
+    guaranteed: [{ item: 'metal', amount: 1 }, { item: 'stone', amount: 1 }],
+    entries: [
+      { item: null, weight: 50, rarity: 'common' },
+      { item: 'metal', weight: 50, rarity: 'uncommon', min: 1, max: 2 },
+    ],
+  },
+}
+
+const getWeight = (entry: LootEntry, day: number): number => {
+  if (entry.minDay && day < entry.minDay) return 0
+  const scaledDays = Math.min(day, MAX_SCALED_DAY) - 1
+  return entry.weight * (1 + RARITY_GROWTH[entry.rarity] * scaledDays)
+}
+
+const pickEntry = (table: LootTable, day: number, rng: Rng): LootEntry | null => {
+  const weights = table.entries.map(entry => getWeight(entry, day))
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  let pick = rng() * total
+  for (let i = 0; i < table.entries.length; i++) {
+    pick -= weights[i]
+    if (pick < 0) return table.entries[i]
+  }
+  return null
+}
+
+export const rollLoot = (tableId: LootTableId, day: number, rng: Rng = Math.random): LootDrop[] => {
+  const table = LOOT_TABLES[tableId]
+  const drops: LootDrop[] = (table.guaranteed || []).map(drop => ({ ...drop }))
+  for (let i = 0; i < table.rolls; i++) {
+    const entry = pickEntry(table, day, rng)
+    if (!entry?.item) continue
+    const min = entry.min ?? 1
+    const max = entry.max ?? min
+    const amount = min === max ? min : min + Math.floor(rng() * (max - min + 1))
+    const existing = drops.find(drop => drop.item === entry.item)
+    if (existing) existing.amount += amount
+    else drops.push({ item: entry.item, amount })
+  }
+  return drops
+}
+
+export interface DropRate {
+  item: ItemType
+  rarity: Rarity
+  chancePerRoll: number // 0..1
+  expectedAmount: number // Average count from one full roll of the table
+  guaranteed?: boolean // Given every time rather than rolled for
+}
+
+// Balancing aid: the exact odds the table works with on a given day. Guaranteed
+// drops and each rolled entry get their own row, even for the same item
+export const getDropRates = (tableId: LootTableId, day: number): DropRate[] => {
+  const table = LOOT_TABLES[tableId]
+  const total = table.entries.reduce((sum, entry) => sum + getWeight(entry, day), 0)
+  const rates: DropRate[] = (table.guaranteed || []).map(drop => ({ item: drop.item, rarity: 'common', chancePerRoll: 1, expectedAmount: drop.amount, guaranteed: true }))
+  for (const entry of table.entries) {
+    if (!entry.item) continue
+    const chancePerRoll = total > 0 ? getWeight(entry, day) / total : 0
+    const averageAmount = ((entry.min ?? 1) + (entry.max ?? entry.min ?? 1)) / 2
+    rates.push({ item: entry.item, rarity: entry.rarity, chancePerRoll, expectedAmount: chancePerRoll * averageAmount * table.rolls })
+  }
+  return rates
+}
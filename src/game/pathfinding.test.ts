@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { MAP_HEIGHT, MAP_WIDTH } from './constants'
+import { findPath, planPath } from './pathfinding'
+import { Tile, TileType } from './types'
+import { createInitialGameState, createInitialPlayer, createWorld, World } from './world'
+
+// An open field of grass with the player in the middle, at (25, 25)
+const createField = (): World => {
+  const map: Tile[][] = Array.from({ length: MAP_HEIGHT }, () => Array.from({ length: MAP_WIDTH }, () => ({ type: TileType.Grass })))
+  return createWorld(map, createInitialPlayer(), createInitialGameState('TEST'))
+}
+
+describe('findPath', () => {
+  it('walks straight across open ground', () => {
+    const world = createField()
+    expect(findPath(world, 28, 25)).toEqual([{ x: 26, y: 25 }, { x: 27, y: 25 }, { x: 28, y: 25 }])
+  })
+
+  it('is empty when already there', () => {
+    expect(findPath(createField(), 25, 25)).toEqual([])
+  })
+
+  it('goes around things in the way', () => {
+    const world = createField()
+    for (let y = 20; y <= 30; y++) world.map[y][26] = { type: TileType.DeepWater }
+    const path = findPath(world, 27, 25)!
+    expect(path[path.length - 1]).toEqual({ x: 27, y: 25 })
+    expect(path.some(step => step.x === 26 && step.y >= 20 && step.y <= 30)).toBe(false)
+    expect(path).toHaveLength(14)
+  })
+
+  it('skirts a wade when going round is shorter', () => {
+    const world = createField()
+    for (let x = 26; x <= 28; x++) world.map[25][x] = { type: TileType.ShallowWater }
+    const path = findPath(world, 29, 25)!
+    expect(path.some(step => world.map[step.y][step.x].type === TileType.ShallowWater)).toBe(false)
+    expect(path).toHaveLength(6)
+  })
+
+  it('stops beside the target when asked', () => {
+    const world = createField()
+    world.map[25][28].item = 'tree'
+    expect(findPath(world, 28, 25)).toBeNull()
+    expect(findPath(world, 28, 25, true)).toEqual([{ x: 26, y: 25 }, { x: 27, y: 25 }])
+  })
+
+  it('gives up when there is no way there', () => {
+    const world = createField()
+    for (const [x, y] of [[29, 25], [31, 25], [30, 24], [30, 26]]) world.map[y][x] = { type: TileType.DeepWater }
+    expect(findPath(world, 30, 25)).toBeNull()
+    expect(findPath(world, MAP_WIDTH, 25)).toBeNull()
+  })
+})
+
+describe('planPath', () => {
+  it('heads for the tile beside anything that cannot be walked onto', () => {
+    const world = createField()
+    world.map[25][27].item = 'rock'
+    expect(planPath(world, 27, 25)).toBe(true)
+    expect(world.path).toEqual({ steps: [{ x: 26, y: 25 }], target: { x: 27, y: 25 } })
+  })
+})
@@ -0,0 +1,99 @@
+import { MAP_WIDTH } from './constants'
+import { canEnter } from './islands'
+import { Direction, Player, Tile, TileType } from './types'
+import { isInBounds, World } from './world'
+
+// --- Pathfinding ---
+// A* over the 4-connected tile grid, for click-to-move. Paths use the same
+// rules as walking (see `canEnter`), with wading counted as slower going.
+
+export interface PathStep {
+  x: number
+  y: number
+}
+
+// A route being walked; `target` is used once the route ends beside it
+export interface PlannedPath {
+  steps: PathStep[]
+  target: PathStep | null
+}
+
+const STEP_COST: Record<TileType, number> = {
+  [TileType.DeepWater]: 1, // Only reachable aboard the raft
+  [TileType.ShallowWater]: 2, // Wading is half speed
+  [TileType.Sand]: 1,
+  [TileType.Grass]: 1,
+}
+
+const NEIGHBOURS: [number, number, Direction][] = [[0, -1, 'up'], [0, 1, 'down'], [-1, 0, 'left'], [1, 0, 'right']]
+
+const nodeId = (x: number, y: number) => y * MAP_WIDTH + x
+
+const isPathObstacle = (world: World, tile: Tile): boolean => !canEnter(world, tile)
+
+// Shortest path from the player to (x, y), excluding the start tile. With `adjacent`
+// the path ends on any tile beside the goal instead, for reaching things to interact with.
+// Returns null when there is no way there
+export const findPath = (world: World, x: number, y: number, adjacent = false): PathStep[] | null => {
+  const { map, player } = world
+  const startX = Math.round(player.x), startY = Math.round(player.y)
+  if (!isInBounds(x, y)) return null
+  const isGoal = adjacent
+    ? (nx: number, ny: number) => Math.abs(nx - x) + Math.abs(ny - y) === 1
+    : (nx: number, ny: number) => nx === x && ny === y
+  if (isGoal(startX, startY)) return []
+  if (!adjacent && isPathObstacle(world, map[y][x])) return null
+
+  const heuristic = (nx: number, ny: number) => Math.max(0, Math.abs(nx - x) + Math.abs(ny - y) - (adjacent ? 1 : 0))
+  const cost = new Map<number, number>([[nodeId(startX, startY), 0]])
+  const cameFrom = new Map<number, number>()
+  // The maps are small enough that scanning the open list beats keeping a heap
+  const open: { x: number, y: number, f: number }[] = [{ x: startX, y: startY, f: heuristic(startX, startY) }]
+  const closed = new Set<number>()
+
+  while (open.length > 0) {
+    let best = 0
+    for (let i = 1; i < open.length; i++) if (open[i].f < open[best].f) best = i
+    const current = open.splice(best, 1)[0]
+    const currentId = nodeId(current.x, current.y)
+    if (closed.has(currentId)) continue
+    closed.add(currentId)
+
+    if (isGoal(current.x, current.y)) {
+      const path: PathStep[] = []
+      for (let id: number | undefined = currentId; id !== undefined && id !== nodeId(startX, startY); id = cameFrom.get(id)) {
+        path.unshift({ x: id % MAP_WIDTH, y: Math.floor(id / MAP_WIDTH) })
+      }
+      return path
+    }
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = current.x + dx, ny = current.y + dy
+      if (!isInBounds(nx, ny) || isPathObstacle(world, map[ny][nx])) continue
+      const id = nodeId(nx, ny)
+      const next = (cost.get(currentId) || 0) + STEP_COST[map[ny][nx].type]
+      if (next >= (cost.get(id) ?? Infinity)) continue
+      cost.set(id, next)
+      cameFrom.set(id, currentId)
+      open.push({ x: nx, y: ny, f: next + heuristic(nx, ny) })
+    }
+  }
+  return null
+}
+
+// Which way to step from the player's tile to reach a neighbouring tile, if it is one
+export const getDirectionTo = (player: Player, x: number, y: number): Direction | null => {
+  const dx = x - Math.round(player.x), dy = y - Math.round(player.y)
+  return NEIGHBOURS.find(([nx, ny]) => nx === dx && ny === dy)?.[2] ?? null
+}
+
+// Sets the player walking to (x, y). Anything that can't be walked onto, and crops,
+// are walked up to and used instead. Returns false when there is no way there
+export const planPath = (world: World, x: number, y: number): boolean => {
+  if (!isInBounds(x, y)) return false
+  const tile = world.map[y][x]
+  const approach = isPathObstacle(world, tile) || !!tile.crop
+  const steps = findPath(world, x, y, approach)
+  world.path = steps ? { steps, target: approach ? { x, y } : null } : null
+  return !!steps
+}
@@ -0,0 +1,93 @@
+import { emit, EventOf, GameEvent, GameEventType, subscribe } from './events'
+import { Inventory } from './items'
+import { giveItem } from './storage'
+import { TOOLS } from './tools'
+import { GameState, ItemType, Progress } from './types'
+import { World } from './world'
+
+// --- Journal & Achievements ---
+// Both count game events towards a goal. Journal objectives walk a new player
+// through the basics and pay out a reward; achievements are long-running
+// milestones. Counts live on `gameState.progress`, so they are saved with the
+// island and, unlike run stats, survive being knocked out.
+
+interface Tracker {
+  on: GameEventType
+  count: (event: GameEvent) => number // How far one event moves the count
+}
+
+const track = <T extends GameEventType>(on: T, count: (event: EventOf<T>) => number = () => 1): Tracker => {
+  return { on, count: event => count(event as EventOf<T>) }
+}
+
+export interface Objective {
+  id: string
+  name: string
+  description: string
+  goal: number
+  tracker: Tracker
+  reward?: Inventory // Journal objectives only
+}
+
+const FISH: ItemType[] = ['sardine', 'mackerel', 'snapper', 'tuna', 'squid']
+
+// In the order the journal suggests them
+export const QUESTS: Objective[] = [
+  { id: 'gather_driftwood', name: 'Beachcomber', description: 'Gather 5 driftwood from the shore', goal: 5, tracker: track('itemGathered', e => e.item === 'driftwood' ? e.amount : 0), reward: { driftwood: 2 } },
+  { id: 'craft_axe', name: 'Sharpen Up', description: 'Craft an axe', goal: 1, tracker: track('recipeCrafted', e => TOOLS[e.item]?.kind === 'axe' ? 1 : 0), reward: { metal: 1 } },
+  { id: 'chop_trees', name: 'Timber', description: 'Chop down 3 trees', goal: 3, tracker: track('nodeHarvested', e => e.node === 'tree' ? 1 : 0), reward: { coconut: 2 } },
+  { id: 'build_wall', name: 'Four Walls', description: 'Build your first wooden wall', goal: 1, tracker: track('structurePlaced', e => e.item === 'wall_wood' ? 1 : 0), reward: { wood: 2 } },
+  { id: 'survive_nights', name: 'Castaway', description: 'Survive 3 nights', goal: 3, tracker: track('dayPassed'), reward: { carrot_seeds: 3 } },
+  { id: 'build_workbench', name: 'Tools of the Trade', description: 'Set up a workbench', goal: 1, tracker: track('structurePlaced', e => e.item === 'workbench' ? 1 : 0), reward: { metal: 2 } },
+  { id: 'cook_meal', name: 'Hot Meal', description: 'Cook a meal over a campfire', goal: 1, tracker: track('recipeCrafted', e => e.station === 'campfire' ? 1 : 0), reward: { driftwood: 3 } },
+  { id: 'set_sail', name: 'Over the Horizon', description: 'Sail the raft to a new island', goal: 1, tracker: track('islandVisited', e => e.firstVisit ? 1 : 0), reward: { metal: 2, wood: 4 } },
+]
+
+export const ACHIEVEMENTS: Objective[] = [
+  { id: 'lumberjack', name: 'Lumberjack', description: 'Chop down 50 trees', goal: 50, tracker: track('nodeHarvested', e => e.node === 'tree' ? 1 : 0) },
+  { id: 'prospector', name: 'Prospector', description: 'Mine 25 rocks or ore', goal: 25, tracker: track('nodeHarvested', e => e.node === 'tree' ? 0 : 1) },
+  { id: 'angler', name: 'Angler', description: 'Catch 25 fish', goal: 25, tracker: track('itemGathered', e => FISH.includes(e.item) ? e.amount : 0) },
+  { id: 'crab_catcher', name: 'Pincer Movement', description: 'Catch 10 crabs', goal: 10, tracker: track('itemGathered', e => e.item === 'crab' ? e.amount : 0) },
+  { id: 'builder', name: 'Master Builder', description: 'Place 25 structures', goal: 25, tracker: track('structurePlaced') },
+  { id: 'chef', name: 'Island Chef', description: 'Cook 20 meals', goal: 20, tracker: track('recipeCrafted', e => e.station === 'campfire' ? e.amount : 0) },
+  { id: 'survivor', name: 'Survivor', description: 'See 30 days pass', goal: 30, tracker: track('dayPassed') },
+  { id: 'explorer', name: 'Explorer', description: 'Land on 5 new islands', goal: 5, tracker: track('islandVisited', e => e.firstVisit ? 1 : 0) },
+]
+
+export const getProgress = (gameState: GameState): Progress => {
+  if (!gameState.progress) gameState.progress = { quests: {}, achievements: {} }
+  return gameState.progress
+}
+
+export const isComplete = (counts: { [id: string]: number }, objective: Objective): boolean => (counts[objective.id] || 0) >= objective.goal
+
+// The first journal objective not yet done, for the HUD
+export const getCurrentQuest = (gameState: GameState): Objective | undefined => {
+  return QUESTS.find(quest => !isComplete(gameState.progress?.quests ?? {}, quest))
+}
+
+// Counts the event towards every unfinished objective, paying out and announcing any it completes
+const advance = (world: World, event: GameEvent) => {
+  const progress = getProgress(world.gameState)
+  for (const [objectives, counts, isQuest] of [[QUESTS, progress.quests, true], [ACHIEVEMENTS, progress.achievements, false]] as const) {
+    for (const objective of objectives) {
+      if (objective.tracker.on !== event.type || isComplete(counts, objective)) continue
+      const amount = objective.tracker.count(event)
+      if (amount <= 0) continue
+      counts[objective.id] = Math.min(objective.goal, (counts[objective.id] || 0) + amount)
+      if (!isComplete(counts, objective)) continue
+      if (isQuest) {
+        for (const [item, count] of Object.entries(objective.reward ?? {})) giveItem(world, item as ItemType, count)
+        emit(world.bus, { type: 'questCompleted', quest: objective.id })
+      } else {
+        emit(world.bus, { type: 'achievementUnlocked', achievement: objective.id })
+      }
+    }
+  }
+}
+
+// Hooks the journal and achievements up to the world's events
+export const trackProgress = (world: World) => {
+  const types = new Set([...QUESTS, ...ACHIEVEMENTS].map(objective => objective.tracker.on))
+  for (const type of types) subscribe(world.bus, type, event => advance(world, event))
+}
@@ -0,0 +1,71 @@
+// --- Seeded Randomness ---
+
+export type Rng = () => number
+export type Noise2D = (x: number, y: number) => number
+
+// mulberry32: tiny, fast and plenty random for world generation
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// FNV-1a, so any typed text can be used as a world seed
+export const hashSeed = (text: string): number => {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+// Derives an independent stream (e.g. per day or per noise layer) from a base seed
+export const deriveSeed = (seed: number, ...salts: number[]): number => {
+  let h = seed >>> 0
+  for (const salt of salts) {
+    h = Math.imul(h ^ (salt >>> 0), 0x9e3779b1)
+    h ^= h >>> 16
+  }
+  return h >>> 0
+}
+
+export const randomSeedText = (): string => {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).toUpperCase().padStart(6, '0')
+}
+
+// --- Value Noise ---
+
+export const createNoise2D = (seed: number): Noise2D => {
+  const lattice = (ix: number, iy: number) => {
+    let h = seed ^ Math.imul(ix, 374761393) ^ Math.imul(iy, 668265263)
+    h = Math.imul(h ^ (h >>> 13), 1274126177)
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296
+  }
+  const smooth = (t: number) => t * t * (3 - 2 * t)
+
+  return (x: number, y: number) => {
+    const x0 = Math.floor(x), y0 = Math.floor(y)
+    const sx = smooth(x - x0), sy = smooth(y - y0)
+    const top = lattice(x0, y0) + (lattice(x0 + 1, y0) - lattice(x0, y0)) * sx
+    const bottom = lattice(x0, y0 + 1) + (lattice(x0 + 1, y0 + 1) - lattice(x0, y0 + 1)) * sx
+    return top + (bottom - top) * sy
+  }
+}
+
+// Sums octaves of noise, normalised back into 0..1
+export const fractalNoise = (noise: Noise2D, x: number, y: number, octaves: number): number => {
+  let total = 0, amplitude = 1, frequency = 1, max = 0
+  for (let i = 0; i < octaves; i++) {
+    total += noise(x * frequency, y * frequency) * amplitude
+    max += amplitude
+    amplitude *= 0.5
+    frequency *= 2
+  }
+  return total / max
+}
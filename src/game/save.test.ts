@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { GAME_MINS_PER_DAY, SHORELINE_ELEVATION, TIDE_RANGE } from './constants'
+import { countItem, getStackLimit, HOTBAR_SIZE, INVENTORY_SIZE } from './inventory'
+import { HOME_ISLAND } from './islands'
+import { createSaveDocument, migrateSave, SAVE_VERSION, SaveError } from './save'
+import { Tile } from './types'
+
+const WOOD_STACK = getStackLimit('wood')
+
+// A fresh save rewound to `version`; each test strips what that version didn't have yet
+const createOldSave = (version: number) => ({ ...JSON.parse(JSON.stringify(createSaveDocument('Old', 'TEST'))), version })
+
+const findTiles = (map: Tile[][], match: (tile: Tile) => boolean) => map.flatMap((row, y) => row.flatMap((tile, x) => match(tile) ? [{ x, y, tile }] : []))
+
+describe('migrateSave', () => {
+  it('loads the current version as it is', () => {
+    const doc = createSaveDocument('Now', 'TEST')
+    expect(migrateSave(JSON.parse(JSON.stringify(doc)))).toEqual(doc)
+  })
+
+  it('refuses saves from a newer game', () => {
+    expect(() => migrateSave(createOldSave(SAVE_VERSION + 1))).toThrow(SaveError)
+  })
+
+  it('v2 → v3 adds a seed and counts the minutes played', () => {
+    const raw = createOldSave(2)
+    delete raw.name
+    delete raw.gameState.seed
+    delete raw.gameState.totalMinutes
+    Object.assign(raw.gameState, { day: 3, timeOfDay: 600 })
+    const doc = migrateSave(raw)
+    expect(doc.name).toBe('Island')
+    expect(doc.gameState.seed).not.toBe('')
+    expect(doc.gameState.totalMinutes).toBe(2 * GAME_MINS_PER_DAY + 600)
+  })
+
+  it('v3 → v4 adds health and run stats', () => {
+    const raw = createOldSave(3)
+    delete raw.player.health
+    delete raw.gameState.stats
+    raw.gameState.day = 5
+    const doc = migrateSave(raw)
+    expect(doc.player.health).toBe(100)
+    expect(doc.gameState.stats).toEqual({ runStartDay: 5, itemsGathered: 0 })
+  })
+
+  it('v4 → v5 starts on the home island', () => {
+    const raw = createOldSave(4)
+    delete raw.islands
+    delete raw.gameState.island
+    const doc = migrateSave(raw)
+    expect(doc.islands).toEqual({})
+    expect(doc.gameState.island).toBe(HOME_ISLAND)
+  })
+
+  it('v5 → v6 starts with no wildlife', () => {
+    const raw = createOldSave(5)
+    delete raw.entities
+    expect(migrateSave(raw).entities).toEqual([])
+  })
+
+  it('v6 → v7 puts the inventory into slots', () => {
+    const raw = createOldSave(6)
+    raw.gameState.inventory = { axe: 1, wood: WOOD_STACK * 2 + 5 }
+    const { inventory } = migrateSave(raw).gameState
+    expect(inventory).toHaveLength(INVENTORY_SIZE)
+    expect(inventory[0]).toEqual({ item: 'axe', count: 1 })
+    expect(inventory.slice(HOTBAR_SIZE, HOTBAR_SIZE + 3)).toEqual([
+      { item: 'wood', count: WOOD_STACK }, { item: 'wood', count: WOOD_STACK }, { item: 'wood', count: 5 },
+    ])
+  })
+
+  it('v6 → v7 leaves what does not fit in a chest beside the player', () => {
+    const raw = createOldSave(6)
+    raw.gameState.inventory = { wood: INVENTORY_SIZE * WOOD_STACK + 60 }
+    const doc = migrateSave(raw)
+    expect(countItem(doc.gameState.inventory, 'wood')).toBe(INVENTORY_SIZE * WOOD_STACK)
+    const chests = findTiles(doc.map, tile => tile.placedStructure === 'chest')
+    expect(chests).toHaveLength(1)
+    const [{ x, y, tile }] = chests
+    expect(tile.storage).toEqual({ wood: 60 })
+    expect(Math.hypot(x - doc.player.x, y - doc.player.y)).toBeGreaterThan(0)
+    expect(Math.hypot(x - doc.player.x, y - doc.player.y)).toBeLessThan(3)
+  })
+
+  it('v7 → v8 moves tool wear onto the first stack', () => {
+    const raw = createOldSave(7)
+    raw.gameState.inventory[0] = { item: 'axe', count: 1 }
+    raw.gameState.inventory[1] = { item: 'axe', count: 1 }
+    raw.gameState.durability = { axe: 12, hoe: 5 }
+    const { gameState } = migrateSave(raw)
+    expect(gameState.inventory.slice(0, 2)).toEqual([{ item: 'axe', count: 1, durability: 12 }, { item: 'axe', count: 1 }])
+    expect(gameState).not.toHaveProperty('durability')
+  })
+
+  it('v8 → v9 gives the beaches their heights back', () => {
+    const raw = createOldSave(8)
+    for (const row of raw.map) for (const tile of row) delete tile.elevation
+    const doc = migrateSave(raw)
+    const restored = findTiles(doc.map, tile => tile.elevation !== undefined)
+    expect(restored.length).toBeGreaterThan(0)
+    for (const { tile } of restored) {
+      expect(Math.abs(tile.elevation! - SHORELINE_ELEVATION)).toBeLessThanOrEqual(TIDE_RANGE)
+    }
+  })
+
+  it('v8 → v9 keeps heights a map already has', () => {
+    const raw = createOldSave(8)
+    const before = JSON.stringify(raw.map)
+    expect(JSON.stringify(migrateSave(raw).map)).toBe(before)
+  })
+
+  it('migrates a v2 save all the way up', () => {
+    const raw = createOldSave(2)
+    for (const key of ['islands', 'entities']) delete raw[key]
+    for (const key of ['seed', 'totalMinutes', 'stats', 'island']) delete raw.gameState[key]
+    delete raw.player.health
+    raw.gameState.inventory = { wood: 3, axe: 1 }
+    raw.gameState.durability = { axe: 9 }
+    const doc = migrateSave(raw)
+    expect(doc.version).toBe(SAVE_VERSION)
+    expect(doc.gameState.inventory[0]).toEqual({ item: 'axe', count: 1, durability: 9 })
+    expect(countItem(doc.gameState.inventory, 'wood')).toBe(3)
+  })
+})
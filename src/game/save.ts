@@ -0,0 +1,586 @@
+import { assembleMap, chunkKey, CHUNKS_X, CHUNKS_Y, getChunkTiles, parseChunkKey } from './chunks'
+import { GAME_MINS_PER_DAY, MAP_HEIGHT, MAP_WIDTH, SHORELINE_ELEVATION, TIDE_RANGE } from './constants'
+import { randomSeedText } from './rng'
+import { BUFF_TYPES, CROP_TYPES, DIRECTIONS, Entity, ENTITY_KINDS, ENTITY_STATES, GameState, ITEM_TYPES, ItemType, Player, Tile, TileType } from './types'
+import { addToInventory, createInventory, HOTBAR_SIZE, INVENTORY_SIZE } from './inventory'
+import { HOME_ISLAND } from './islands'
+import { formatItems, Inventory } from './items'
+import { canSpillOnto } from './storage'
+import { spawnWildlife } from './wildlife'
+import { createInitialGameState, createInitialPlayer, createWorld, generateMap, World } from './world'
+
+// --- Save Format ---
+
+export const SAVE_VERSION = 9
+
+export interface SaveDocument {
+  version: number
+  name: string
+  savedAt: number
+  map: Tile[][] // Home island
+  islands: { [key: string]: Tile[][] } // Other visited islands by key
+  player: Player
+  gameState: GameState
+  entities: Entity[] // Wildlife on the current island
+}
+
+export interface SaveSlotSummary {
+  id: string
+  name: string
+  savedAt: number
+  day: number
+  timeOfDay: number
+  seed: string
+}
+
+export const createSaveDocument = (name: string, seed: string): SaveDocument => {
+  const world = createWorld(generateMap(seed), createInitialPlayer(), createInitialGameState(seed))
+  spawnWildlife(world, true)
+  return { version: SAVE_VERSION, name, savedAt: Date.now(), map: world.map, islands: {}, player: world.player, gameState: world.gameState, entities: world.entities }
+}
+
+export const toSaveDocument = (name: string, world: World): SaveDocument => {
+  const { [HOME_ISLAND]: map, ...islands } = world.islands
+  return { version: SAVE_VERSION, name, savedAt: Date.now(), map, islands, player: world.player, gameState: world.gameState, entities: world.entities }
+}
+
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SaveError'
+  }
+}
+
+const STORAGE_KEY_INDEX = 'tides_save_index'
+const STORAGE_KEY_ACTIVE = 'tides_save_active'
+const STORAGE_KEY_SLOT_PREFIX = 'tides_save_slot_'
+const STORAGE_KEY_CHUNK_PREFIX = 'tides_save_chunk_'
+
+// Pre-versioned saves were three loose blobs
+const LEGACY_KEY_MAP = 'tides_map_v2'
+const LEGACY_KEY_PLAYER = 'tides_player_v2'
+const LEGACY_KEY_GAMESTATE = 'tides_gamestate_v2'
+
+type RawSave = Record<string, unknown>
+
+// --- Validation ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const isItemType = (value: unknown): boolean => (ITEM_TYPES as readonly unknown[]).includes(value)
+
+const ensure = (condition: boolean, path: string, problem: string) => {
+  if (!condition) throw new SaveError(`${path} ${problem}`)
+}
+
+const isDurability = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0
+
+const validateStacks = (value: unknown, path: string) => {
+  ensure(isRecord(value), path, 'is not an object')
+  for (const [item, count] of Object.entries(value as Record<string, unknown>)) {
+    ensure(isItemType(item), `${path}.${item}`, 'is not a known item')
+    ensure(isFiniteNumber(count) && (count as number) >= 0, `${path}.${item}`, 'is not a valid count')
+  }
+}
+
+const validateSlots = (value: unknown, path: string) => {
+  ensure(Array.isArray(value) && value.length === INVENTORY_SIZE, path, `does not have ${INVENTORY_SIZE} slots`)
+  for (const [i, stack] of (value as unknown[]).entries()) {
+    if (stack === null) continue
+    ensure(isRecord(stack) && isItemType(stack.item), `${path}[${i}]`, 'is not an item stack')
+    const count = (stack as Record<string, unknown>).count
+    ensure(Number.isInteger(count) && (count as number) > 0, `${path}[${i}].count`, 'is not a valid count')
+    const durability = (stack as Record<string, unknown>).durability
+    ensure(durability === undefined || isDurability(durability), `${path}[${i}].durability`, 'is not a valid durability')
+  }
+}
+
+const validateCrop = (value: unknown, path: string) => {
+  ensure(isRecord(value), path, 'is not a crop object')
+  const crop = value as Record<string, unknown>
+  ensure((CROP_TYPES as readonly unknown[]).includes(crop.type), `${path}.type`, 'is not a known crop')
+  for (const key of ['plantedDay', 'growth', 'lastWateredDay']) {
+    ensure(isFiniteNumber(crop[key]), `${path}.${key}`, 'is not a number')
+  }
+  ensure(typeof crop.withered === 'boolean', `${path}.withered`, 'is not a boolean')
+}
+
+const validateTile = (value: unknown, path: string): Tile => {
+  ensure(isRecord(value), path, 'is not a tile object')
+  const tile = value as Record<string, unknown>
+  ensure(Object.values(TileType).includes(tile.type as TileType) && typeof tile.type === 'number', `${path}.type`, 'is not a known tile type')
+  ensure(tile.item === undefined || isItemType(tile.item), `${path}.item`, 'is not a known item')
+  ensure(tile.itemDurability === undefined || isDurability(tile.itemDurability), `${path}.itemDurability`, 'is not a valid durability')
+  ensure(tile.itemSince === undefined || isFiniteNumber(tile.itemSince), `${path}.itemSince`, 'is not a number')
+  ensure(tile.placedStructure === undefined || isItemType(tile.placedStructure), `${path}.placedStructure`, 'is not a known item')
+  ensure(tile.stumpChoppedAt === undefined || isFiniteNumber(tile.stumpChoppedAt), `${path}.stumpChoppedAt`, 'is not a number')
+  ensure(tile.minedAt === undefined || isFiniteNumber(tile.minedAt), `${path}.minedAt`, 'is not a number')
+  ensure(tile.variant === undefined || isFiniteNumber(tile.variant), `${path}.variant`, 'is not a number')
+  ensure(tile.elevation === undefined || isFiniteNumber(tile.elevation), `${path}.elevation`, 'is not a number')
+  ensure(tile.tilled === undefined || typeof tile.tilled === 'boolean', `${path}.tilled`, 'is not a boolean')
+  if (tile.crop !== undefined) validateCrop(tile.crop, `${path}.crop`)
+  ensure(tile.structureDamage === undefined || isFiniteNumber(tile.structureDamage), `${path}.structureDamage`, 'is not a number')
+  if (tile.storage !== undefined) validateStacks(tile.storage, `${path}.storage`)
+  if (tile.storedAge !== undefined) validateStacks(tile.storedAge, `${path}.storedAge`)
+  if (tile.storedDurability !== undefined) {
+    ensure(isRecord(tile.storedDurability), `${path}.storedDurability`, 'is not an object')
+    for (const [item, uses] of Object.entries(tile.storedDurability as Record<string, unknown>)) {
+      ensure(isItemType(item), `${path}.storedDurability.${item}`, 'is not a known item')
+      ensure(Array.isArray(uses) && uses.every(isDurability), `${path}.storedDurability.${item}`, 'is not a list of durabilities')
+    }
+  }
+  ensure(tile.fuelUntil === undefined || isFiniteNumber(tile.fuelUntil), `${path}.fuelUntil`, 'is not a number')
+  return tile as unknown as Tile
+}
+
+const validateMap = (value: unknown, path = 'map'): Tile[][] => {
+  ensure(Array.isArray(value) && value.length === MAP_HEIGHT, path, `must have ${MAP_HEIGHT} rows`)
+  return (value as unknown[]).map((row, y) => {
+    ensure(Array.isArray(row) && row.length === MAP_WIDTH, `${path}[${y}]`, `must have ${MAP_WIDTH} tiles`)
+    return (row as unknown[]).map((tile, x) => validateTile(tile, `${path}[${y}][${x}]`))
+  })
+}
+
+const ISLAND_KEY = /^-?\d+,-?\d+$/
+
+const validateIslands = (value: unknown): { [key: string]: Tile[][] } => {
+  ensure(isRecord(value), 'islands', 'is not an object')
+  const islands: { [key: string]: Tile[][] } = {}
+  for (const [key, map] of Object.entries(value as Record<string, unknown>)) {
+    ensure(ISLAND_KEY.test(key) && key !== HOME_ISLAND, `islands.${key}`, 'is not an island key')
+    islands[key] = validateMap(map, `islands.${key}`)
+  }
+  return islands
+}
+
+const validatePlayer = (value: unknown): Player => {
+  ensure(isRecord(value), 'player', 'is not an object')
+  const player = value as Record<string, unknown>
+  for (const key of ['x', 'targetX']) {
+    ensure(isFiniteNumber(player[key]) && (player[key] as number) >= 0 && (player[key] as number) < MAP_WIDTH, `player.${key}`, 'is off the map')
+  }
+  for (const key of ['y', 'targetY']) {
+    ensure(isFiniteNumber(player[key]) && (player[key] as number) >= 0 && (player[key] as number) < MAP_HEIGHT, `player.${key}`, 'is off the map')
+  }
+  for (const key of ['energy', 'hunger', 'health']) {
+    ensure(isFiniteNumber(player[key]), `player.${key}`, 'is not a number')
+  }
+  for (const key of ['isMoving', 'isResting']) {
+    ensure(typeof player[key] === 'boolean', `player.${key}`, 'is not a boolean')
+  }
+  ensure(player.onRaft === undefined || typeof player.onRaft === 'boolean', 'player.onRaft', 'is not a boolean')
+  ensure((DIRECTIONS as readonly unknown[]).includes(player.facing), 'player.facing', 'is not a direction')
+  return player as unknown as Player
+}
+
+const validateGameState = (value: unknown): GameState => {
+  ensure(isRecord(value), 'gameState', 'is not an object')
+  const state = value as Record<string, unknown>
+  ensure(typeof state.seed === 'string' && state.seed.length > 0, 'gameState.seed', 'is missing')
+  ensure(Number.isInteger(state.day) && (state.day as number) >= 1, 'gameState.day', 'must be a whole number from 1')
+  ensure(isFiniteNumber(state.timeOfDay) && (state.timeOfDay as number) >= 0 && (state.timeOfDay as number) < GAME_MINS_PER_DAY, 'gameState.timeOfDay', 'is not a time of day')
+  ensure(isFiniteNumber(state.totalMinutes), 'gameState.totalMinutes', 'is not a number')
+  ensure(typeof state.island === 'string' && ISLAND_KEY.test(state.island), 'gameState.island', 'is not an island key')
+  ensure(state.water === undefined || isFiniteNumber(state.water), 'gameState.water', 'is not a number')
+  if (state.volume !== undefined) {
+    ensure(isRecord(state.volume), 'gameState.volume', 'is not an object')
+    for (const key of ['master', 'sfx', 'ambient']) {
+      const level = (state.volume as Record<string, unknown>)[key]
+      ensure(isFiniteNumber(level) && level >= 0 && level <= 1, `gameState.volume.${key}`, 'is not a level from 0 to 1')
+    }
+  }
+  if (state.buffs !== undefined) {
+    ensure(isRecord(state.buffs), 'gameState.buffs', 'is not an object')
+    for (const [buff, until] of Object.entries(state.buffs as Record<string, unknown>)) {
+      ensure((BUFF_TYPES as readonly unknown[]).includes(buff), `gameState.buffs.${buff}`, 'is not a known buff')
+      ensure(isFiniteNumber(until), `gameState.buffs.${buff}`, 'is not a number')
+    }
+  }
+  if (state.freshness !== undefined) {
+    ensure(isRecord(state.freshness), 'gameState.freshness', 'is not an object')
+    for (const [item, record] of Object.entries(state.freshness as Record<string, unknown>)) {
+      ensure(isItemType(item), `gameState.freshness.${item}`, 'is not a known item')
+      ensure(isRecord(record) && isFiniteNumber(record.since) && isFiniteNumber(record.count), `gameState.freshness.${item}`, 'is not a freshness record')
+    }
+  }
+  if (state.progress !== undefined) {
+    ensure(isRecord(state.progress), 'gameState.progress', 'is not an object')
+    const progress = state.progress as Record<string, unknown>
+    for (const key of ['quests', 'achievements']) {
+      ensure(isRecord(progress[key]), `gameState.progress.${key}`, 'is not an object')
+      for (const [id, count] of Object.entries(progress[key] as Record<string, unknown>)) {
+        ensure(isFiniteNumber(count), `gameState.progress.${key}.${id}`, 'is not a number')
+      }
+    }
+  }
+  ensure(isRecord(state.stats), 'gameState.stats', 'is not an object')
+  const stats = state.stats as Record<string, unknown>
+  ensure(Number.isInteger(stats.runStartDay), 'gameState.stats.runStartDay', 'is not a day')
+  ensure(isFiniteNumber(stats.itemsGathered), 'gameState.stats.itemsGathered', 'is not a number')
+  validateSlots(state.inventory, 'gameState.inventory')
+  if (state.pinned !== undefined) {
+    ensure(Array.isArray(state.pinned) && state.pinned.length === HOTBAR_SIZE, 'gameState.pinned', `does not have ${HOTBAR_SIZE} slots`)
+    for (const [i, item] of (state.pinned as unknown[]).entries()) {
+      ensure(item === null || isItemType(item), `gameState.pinned[${i}]`, 'is not a known item')
+    }
+  }
+  return state as unknown as GameState
+}
+
+// Gulls fly in and out from just past the map edge
+const ENTITY_MARGIN = 3
+
+const validateEntity = (value: unknown, path: string): Entity => {
+  ensure(isRecord(value), path, 'is not an entity object')
+  const entity = value as Record<string, unknown>
+  ensure(Number.isInteger(entity.id), `${path}.id`, 'is not a whole number')
+  ensure((ENTITY_KINDS as readonly unknown[]).includes(entity.kind), `${path}.kind`, 'is not a known creature')
+  ensure((ENTITY_STATES as readonly unknown[]).includes(entity.state), `${path}.state`, 'is not a known state')
+  for (const [key, size] of [['x', MAP_WIDTH], ['targetX', MAP_WIDTH], ['y', MAP_HEIGHT], ['targetY', MAP_HEIGHT]] as const) {
+    const position = entity[key]
+    ensure(isFiniteNumber(position) && position >= -ENTITY_MARGIN && position < size + ENTITY_MARGIN, `${path}.${key}`, 'is off the map')
+  }
+  for (const key of ['timer', 'rolls']) {
+    ensure(isFiniteNumber(entity[key]), `${path}.${key}`, 'is not a number')
+  }
+  ensure(entity.carrying === undefined || isItemType(entity.carrying), `${path}.carrying`, 'is not a known item')
+  return entity as unknown as Entity
+}
+
+const validateEntities = (value: unknown): Entity[] => {
+  ensure(Array.isArray(value), 'entities', 'is not a list')
+  return (value as unknown[]).map((entity, i) => validateEntity(entity, `entities[${i}]`))
+}
+
+const validateSave = (raw: RawSave): SaveDocument => {
+  ensure(typeof raw.name === 'string', 'name', 'is not a string')
+  ensure(isFiniteNumber(raw.savedAt), 'savedAt', 'is not a timestamp')
+  return {
+    version: SAVE_VERSION,
+    name: raw.name as string,
+    savedAt: raw.savedAt as number,
+    map: validateMap(raw.map),
+    islands: validateIslands(raw.islands),
+    player: validatePlayer(raw.player),
+    gameState: validateGameState(raw.gameState),
+    entities: validateEntities(raw.entities),
+  }
+}
+
+// --- Migrations ---
+
+// Puts what a migration can no longer fit in the player's slots into a new chest on
+// the nearest free tile beside the player, on their own island if it has room or else any other
+const storeOverflow = (raw: RawSave, island: unknown, items: Inventory) => {
+  if (!Object.keys(items).length) return
+  const player = isRecord(raw.player) ? raw.player : {}
+  const px = isFiniteNumber(player.x) ? Math.round(player.x) : 0
+  const py = isFiniteNumber(player.y) ? Math.round(player.y) : 0
+  const others = isRecord(raw.islands) ? Object.entries(raw.islands) : []
+  const maps = [[HOME_ISLAND, raw.map], ...others].sort(([a], [b]) => Number(b === island) - Number(a === island))
+  for (const [, map] of maps) {
+    if (!Array.isArray(map)) continue
+    let best: Tile | null = null
+    let bestDist = Infinity
+    for (const [y, row] of (map as unknown[]).entries()) {
+      if (!Array.isArray(row)) continue
+      for (const [x, tile] of row.entries()) {
+        const dist = (x - px) ** 2 + (y - py) ** 2
+        if (dist > 0 && dist < bestDist && isRecord(tile) && canSpillOnto(tile as unknown as Tile)) {
+          best = tile as unknown as Tile
+          bestDist = dist
+        }
+      }
+    }
+    if (!best) continue
+    best.placedStructure = 'chest'
+    best.storage = { ...items }
+    return
+  }
+  console.warn(`No room to set down ${formatItems(items)} from the old inventory; they were lost`)
+}
+
+// Tiles to the nearest tile matching `isTarget`, walking in the four directions
+const getDistances = (map: unknown[][], isTarget: (tile: Record<string, unknown>) => boolean): number[][] => {
+  const distances = map.map(row => row.map(() => Infinity))
+  const queue: [number, number][] = []
+  map.forEach((row, y) => row.forEach((tile, x) => {
+    if (isRecord(tile) && isTarget(tile)) { distances[y][x] = 0; queue.push([x, y]) }
+  }))
+  for (let i = 0; i < queue.length; i++) {
+    const [x, y] = queue[i]
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (distances[ny]?.[nx] !== Infinity) continue
+      distances[ny][nx] = distances[y][x] + 1
+      queue.push([nx, ny])
+    }
+  }
+  return distances
+}
+
+// Maps from before the tide have no heights, so they are estimated from how far
+// each beach tile is from the water's edge: two rows either side move with the tide
+const backfillElevation = (map: unknown) => {
+  if (!Array.isArray(map) || !map.every(Array.isArray)) return
+  const tiles = map as unknown[][]
+  if (tiles.some(row => row.some(tile => isRecord(tile) && tile.elevation !== undefined))) return
+  const step = TIDE_RANGE / 2
+  const toWater = getDistances(tiles, tile => tile.type === TileType.ShallowWater || tile.type === TileType.DeepWater)
+  const toSand = getDistances(tiles, tile => tile.type === TileType.Sand)
+  tiles.forEach((row, y) => row.forEach((tile, x) => {
+    if (!isRecord(tile)) return
+    let elevation: number | undefined
+    if (tile.type === TileType.Sand) elevation = SHORELINE_ELEVATION + (toWater[y][x] - 0.5) * step
+    else if (tile.type === TileType.ShallowWater) elevation = SHORELINE_ELEVATION - (toSand[y][x] - 0.5) * step
+    if (elevation !== undefined && Math.abs(elevation - SHORELINE_ELEVATION) <= TIDE_RANGE) tile.elevation = Math.round(elevation * 1000) / 1000
+  }))
+}
+
+// Each step upgrades a document from its key version to the next one
+const MIGRATIONS: { [fromVersion: number]: (raw: RawSave) => RawSave } = {
+  2: raw => {
+    const gameState = isRecord(raw.gameState) ? { ...raw.gameState } : raw.gameState
+    if (isRecord(gameState)) {
+      if (!gameState.seed) gameState.seed = randomSeedText()
+      if (!gameState.totalMinutes && isFiniteNumber(gameState.day) && isFiniteNumber(gameState.timeOfDay)) {
+        gameState.totalMinutes = (gameState.day - 1) * GAME_MINS_PER_DAY + gameState.timeOfDay
+      }
+    }
+    return { ...raw, version: 3, name: raw.name ?? 'Island', savedAt: raw.savedAt ?? Date.now(), gameState }
+  },
+  // v4 added player health and per-run stats
+  3: raw => {
+    const player = isRecord(raw.player) ? { health: 100, ...raw.player } : raw.player
+    const gameState = isRecord(raw.gameState)
+      ? { stats: { runStartDay: raw.gameState.day, itemsGathered: 0 }, ...raw.gameState }
+      : raw.gameState
+    return { ...raw, version: 4, player, gameState }
+  },
+  // v5 added other islands to sail to
+  4: raw => {
+    const gameState = isRecord(raw.gameState) ? { island: HOME_ISLAND, ...raw.gameState } : raw.gameState
+    return { ...raw, version: 5, islands: raw.islands ?? {}, gameState }
+  },
+  // v6 added wildlife; older islands fill up again hour by hour
+  5: raw => ({ ...raw, version: 6, entities: raw.entities ?? [] }),
+  // v7 put the inventory into fixed slots; whatever no longer fits goes into a chest by the player
+  6: raw => {
+    const gameState = isRecord(raw.gameState) ? { ...raw.gameState } : raw.gameState
+    if (isRecord(gameState) && isRecord(gameState.inventory)) {
+      const slotted = { inventory: createInventory() } as GameState
+      const overflow: Inventory = {}
+      for (const [key, count] of Object.entries(gameState.inventory)) {
+        const item = key as ItemType
+        const left = addToInventory(slotted, item, count as number)
+        if (left > 0) overflow[item] = left
+      }
+      gameState.inventory = slotted.inventory
+      storeOverflow(raw, gameState.island, overflow)
+    }
+    return { ...raw, version: 7, gameState }
+  },
+  // v8 moved tool wear from one value per tool type onto the stacks, starting with the first copy
+  7: raw => {
+    const gameState = isRecord(raw.gameState) ? { ...raw.gameState } : raw.gameState
+    if (isRecord(gameState) && Array.isArray(gameState.inventory) && isRecord(gameState.durability)) {
+      const durability = { ...gameState.durability }
+      gameState.inventory = gameState.inventory.map((stack: unknown) => {
+        if (!isRecord(stack) || typeof stack.item !== 'string' || durability[stack.item] === undefined) return stack
+        const worn = { ...stack, durability: durability[stack.item] }
+        delete durability[stack.item]
+        return worn
+      })
+    }
+    if (isRecord(gameState)) delete gameState.durability
+    return { ...raw, version: 8, gameState }
+  },
+  // v9 gave maps saved before the tide their beach heights, so the waterline moves on them too
+  8: raw => {
+    backfillElevation(raw.map)
+    if (isRecord(raw.islands)) Object.values(raw.islands).forEach(backfillElevation)
+    return { ...raw, version: 9 }
+  },
+}
+
+export const migrateSave = (raw: unknown): SaveDocument => {
+  if (!isRecord(raw)) throw new SaveError('Save file is not a save document')
+  let doc = raw
+  if (!isFiniteNumber(doc.version)) throw new SaveError('Save file has no version')
+  if (doc.version > SAVE_VERSION) throw new SaveError(`Save version ${doc.version} is newer than this game supports (${SAVE_VERSION})`)
+  while ((doc.version as number) < SAVE_VERSION) {
+    const step = MIGRATIONS[doc.version as number]
+    if (!step) throw new SaveError(`No migration from save version ${doc.version}`)
+    doc = step(doc)
+  }
+  return validateSave(doc)
+}
+
+const parseJson = (text: string, source: string): unknown => {
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    throw new SaveError(`${source} is not valid JSON (${(e as Error).message})`)
+  }
+}
+
+// --- Slots ---
+
+const readIndex = (): SaveSlotSummary[] => {
+  const saved = localStorage.getItem(STORAGE_KEY_INDEX)
+  if (!saved) return []
+  const index = parseJson(saved, 'Save index')
+  return Array.isArray(index) ? index.filter(isRecord) as unknown as SaveSlotSummary[] : []
+}
+
+const summarize = (id: string, doc: SaveDocument): SaveSlotSummary => ({
+  id,
+  name: doc.name,
+  savedAt: doc.savedAt,
+  day: doc.gameState.day,
+  timeOfDay: doc.gameState.timeOfDay,
+  seed: doc.gameState.seed,
+})
+
+export const createSlotId = (): string => `${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`
+
+export const listSaveSlots = (): SaveSlotSummary[] => {
+  return readIndex().sort((a, b) => b.savedAt - a.savedAt)
+}
+
+// Slots are stored as a small header plus one entry per map chunk, so routine
+// saves only rewrite the chunks that changed
+const chunkStorageKey = (id: string, key: string) => `${STORAGE_KEY_CHUNK_PREFIX}${id}_${key}`
+
+const allChunkKeys = (doc: SaveDocument): string[] => {
+  const keys: string[] = []
+  for (const island of [HOME_ISLAND, ...Object.keys(doc.islands)]) {
+    for (let cy = 0; cy < CHUNKS_Y; cy++) {
+      for (let cx = 0; cx < CHUNKS_X; cx++) keys.push(chunkKey(island, cx, cy))
+    }
+  }
+  return keys
+}
+
+// Writes the header and the given chunks; every chunk when none are given
+export const writeSlot = (id: string, doc: SaveDocument, chunks: Iterable<string> = allChunkKeys(doc)) => {
+  const { map, islands, ...header } = doc
+  for (const key of chunks) {
+    const { island, cx, cy } = parseChunkKey(key)
+    const islandMap = island === HOME_ISLAND ? map : islands[island]
+    if (islandMap) localStorage.setItem(chunkStorageKey(id, key), JSON.stringify(getChunkTiles(islandMap, cx, cy)))
+  }
+  localStorage.setItem(STORAGE_KEY_SLOT_PREFIX + id, JSON.stringify({ ...header, islandKeys: Object.keys(islands) }))
+  const index = readIndex().filter(slot => slot.id !== id)
+  index.push(summarize(id, doc))
+  localStorage.setItem(STORAGE_KEY_INDEX, JSON.stringify(index))
+}
+
+// A failed write (usually a full storage quota) keeps the changed chunks queued for the next try
+export const saveWorld = (id: string, name: string, world: World) => {
+  try {
+    writeSlot(id, toSaveDocument(name, world), world.chunks.dirty)
+  } catch (e) {
+    throw new SaveError(`Could not write the save (${(e as Error).message})`)
+  }
+  world.chunks.dirty.clear()
+}
+
+const readChunk = (id: string, key: string): unknown[][] => {
+  const saved = localStorage.getItem(chunkStorageKey(id, key))
+  if (!saved) throw new SaveError(`Save chunk ${key} is missing`)
+  const rows = parseJson(saved, `Save chunk ${key}`)
+  if (!Array.isArray(rows) || !rows.every(Array.isArray)) throw new SaveError(`Save chunk ${key} is not a list of tile rows`)
+  return rows
+}
+
+export const loadSlot = (id: string): SaveDocument => {
+  const saved = localStorage.getItem(STORAGE_KEY_SLOT_PREFIX + id)
+  if (!saved) throw new SaveError(`Save slot "${id}" is empty`)
+  const raw = parseJson(saved, 'Save slot')
+  // Slots written before chunking hold the whole document
+  if (!isRecord(raw) || raw.map !== undefined || !Array.isArray(raw.islandKeys)) return migrateSave(raw)
+  const readMap = (island: string) => assembleMap((cx, cy) => readChunk(id, chunkKey(island, cx, cy)))
+  const islands: Record<string, unknown> = {}
+  for (const island of raw.islandKeys) {
+    if (typeof island === 'string') islands[island] = readMap(island)
+  }
+  return migrateSave({ ...raw, map: readMap(HOME_ISLAND), islands })
+}
+
+export const deleteSlot = (id: string) => {
+  localStorage.removeItem(STORAGE_KEY_SLOT_PREFIX + id)
+  const chunkPrefix = chunkStorageKey(id, '')
+  const chunkKeys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(chunkPrefix)) chunkKeys.push(key)
+  }
+  for (const key of chunkKeys) localStorage.removeItem(key)
+  localStorage.setItem(STORAGE_KEY_INDEX, JSON.stringify(readIndex().filter(slot => slot.id !== id)))
+  if (getActiveSlotId() === id) localStorage.removeItem(STORAGE_KEY_ACTIVE)
+}
+
+export const getActiveSlotId = (): string | null => localStorage.getItem(STORAGE_KEY_ACTIVE)
+
+export const setActiveSlotId = (id: string) => localStorage.setItem(STORAGE_KEY_ACTIVE, id)
+
+// Moves a v2 save into a slot; the old keys are only removed once it validates
+const migrateLegacySave = () => {
+  const map = localStorage.getItem(LEGACY_KEY_MAP)
+  const player = localStorage.getItem(LEGACY_KEY_PLAYER)
+  const gameState = localStorage.getItem(LEGACY_KEY_GAMESTATE)
+  if (!map || !player || !gameState) return
+
+  const doc = migrateSave({
+    version: 2,
+    map: parseJson(map, 'Old map save'),
+    player: parseJson(player, 'Old player save'),
+    gameState: parseJson(gameState, 'Old game state save'),
+  })
+  const id = createSlotId()
+  writeSlot(id, doc)
+  setActiveSlotId(id)
+  localStorage.removeItem(LEGACY_KEY_MAP)
+  localStorage.removeItem(LEGACY_KEY_PLAYER)
+  localStorage.removeItem(LEGACY_KEY_GAMESTATE)
+}
+
+// Returns the save to resume, or null when there is nothing to resume. Throws SaveError on bad data.
+export const loadActiveSave = (): { id: string, doc: SaveDocument } | null => {
+  migrateLegacySave()
+  const id = getActiveSlotId()
+  if (!id) return null
+  return { id, doc: loadSlot(id) }
+}
+
+// --- Files ---
+
+export const exportSave = (doc: SaveDocument) => {
+  const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${doc.name.replace(/[^a-z0-9-_]+/gi, '_') || 'island'}-day${doc.gameState.day}.json`
+  document.body.appendChild(link)
+  link.click()
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => {
+    URL.revokeObjectURL(url)
+    link.remove()
+  }, 0)
+}
+
+export const importSave = async (file: File): Promise<SaveDocument> => {
+  const text = await file.text()
+  return migrateSave(parseJson(text, file.name))
+}
+
+export const describeSaveError = (error: unknown): string => {
+  if (error instanceof SaveError) return error.message
+  if (error instanceof Error) return `Unexpected error: ${error.message}`
+  return 'Unknown error'
+}
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { GAME_MINS_PER_DAY, REAL_SEC_PER_GAME_MIN, TICK_MS } from './constants'
+import { addToInventory, countItem } from './inventory'
+import { getMoveSpeed, IDLE_INPUT, simulate, step } from './simulation'
+import { PASS_OUT_MINUTES, WAKE_MINUTES } from './survival'
+import { TileType } from './types'
+import { createInitialGameState, createInitialPlayer, createWorld, generateMap, triggerTide, World } from './world'
+
+vi.mock('./world', async importOriginal => {
+  const actual = await importOriginal<typeof import('./world')>()
+  return { ...actual, triggerTide: vi.fn(actual.triggerTide) }
+})
+
+const createTestWorld = (): World => createWorld(generateMap('TEST'), createInitialPlayer(), createInitialGameState('TEST'))
+
+// Leaves the clock one tick short of the next game minute
+const almostNextMinute = (world: World) => {
+  world.clock.timeAccumulator = REAL_SEC_PER_GAME_MIN * 1000 - TICK_MS / 2
+}
+
+// How far the player gets in one tick of walking right from where they stand
+const walkOneTick = (world: World): number => {
+  const { player, map } = world
+  map[player.y][player.x + 1] = { type: TileType.Grass }
+  const startX = player.x
+  step(world, { move: 'right', rest: false })
+  step(world, IDLE_INPUT)
+  return player.x - startX
+}
+
+describe('step', () => {
+  let world: World
+  beforeEach(() => {
+    world = createTestWorld()
+    vi.mocked(triggerTide).mockClear()
+  })
+
+  it('halves walking speed in shallow water', () => {
+    const { player, map } = world
+    map[player.y][player.x] = { type: TileType.Grass }
+    const onLand = getMoveSpeed(world)
+    map[player.y][player.x] = { type: TileType.ShallowWater }
+    expect(getMoveSpeed(world)).toBeCloseTo(onLand / 2)
+    expect(walkOneTick(world)).toBeCloseTo(onLand / 2)
+  })
+
+  it('walks at full speed on land', () => {
+    const { player, map } = world
+    map[player.y][player.x] = { type: TileType.Sand }
+    expect(walkOneTick(world)).toBeCloseTo(getMoveSpeed(world))
+  })
+
+  it('brings in the tide when the day rolls over', () => {
+    world.gameState.timeOfDay = GAME_MINS_PER_DAY - 1
+    almostNextMinute(world)
+    const events = step(world, IDLE_INPUT)
+    expect(triggerTide).toHaveBeenCalledTimes(1)
+    expect(triggerTide).toHaveBeenCalledWith(world)
+    expect(events.map(event => event.type)).toEqual(expect.arrayContaining(['tideArrived', 'dayStarted']))
+    expect(world.gameState.day).toBe(2)
+    expect(world.gameState.timeOfDay).toBe(0)
+  })
+
+  it('leaves the tide alone during the day', () => {
+    almostNextMinute(world)
+    step(world, IDLE_INPUT)
+    expect(triggerTide).not.toHaveBeenCalled()
+  })
+
+  it('passes the player out at 2 AM and wakes them at 6', () => {
+    addToInventory(world.gameState, 'wood', 10)
+    world.gameState.timeOfDay = PASS_OUT_MINUTES - 1
+    almostNextMinute(world)
+    const events = step(world, IDLE_INPUT)
+    expect(events).toContainEqual({ type: 'passedOut', lost: { wood: 2 } })
+    expect(world.gameState.timeOfDay).toBe(WAKE_MINUTES)
+    expect(countItem(world.gameState.inventory, 'wood')).toBe(8)
+    expect(world.player.energy).toBeLessThanOrEqual(25)
+  })
+
+  it('lets a resting player sleep through 2 AM', () => {
+    world.gameState.timeOfDay = PASS_OUT_MINUTES - 1
+    almostNextMinute(world)
+    const events = step(world, { move: null, rest: true })
+    expect(events.some(event => event.type === 'passedOut')).toBe(false)
+    expect(world.gameState.timeOfDay).toBe(PASS_OUT_MINUTES)
+  })
+
+  it('knocks the player out when their health runs out', () => {
+    const { player, gameState } = world
+    addToInventory(gameState, 'axe')
+    addToInventory(gameState, 'wood', 5)
+    gameState.day = 4
+    gameState.stats = { runStartDay: 1, itemsGathered: 7 }
+    Object.assign(player, { x: 10, y: 12, targetX: 10, targetY: 12, health: 0 })
+    const events = step(world, IDLE_INPUT)
+    expect(events).toContainEqual({ type: 'knockedOut', summary: { daysSurvived: 3, itemsGathered: 7 } })
+    expect(countItem(gameState.inventory, 'axe')).toBe(1)
+    expect(countItem(gameState.inventory, 'wood')).toBe(0)
+    expect(player).toMatchObject({ x: 25, y: 25, health: 50 })
+    expect(gameState.stats).toEqual({ runStartDay: 4, itemsGathered: 0 })
+  })
+})
+
+describe('simulate', () => {
+  it('runs whole ticks and carries the remainder', () => {
+    const world = createTestWorld()
+    simulate(world, IDLE_INPUT, TICK_MS * 2.5)
+    expect(world.clock.regenTimer).toBeCloseTo(TICK_MS * 2)
+    expect(world.clock.tickAccumulator).toBeCloseTo(TICK_MS / 2)
+  })
+
+  it('advances the clock a game minute per real second', () => {
+    const world = createTestWorld()
+    const events = simulate(world, IDLE_INPUT, REAL_SEC_PER_GAME_MIN * 1000 + TICK_MS * 1.5)
+    expect(world.gameState.timeOfDay).toBe(8 * 60 + 1)
+    expect(events.filter(event => event.type === 'minutePassed')).toHaveLength(1)
+  })
+
+  it('warns once when hunger crosses a warning level', () => {
+    const world = createTestWorld()
+    world.player.hunger = 20.01
+    world.gameState.timeOfDay = 19
+    almostNextMinute(world)
+    const events = simulate(world, IDLE_INPUT, TICK_MS)
+    expect(events).toContainEqual({ type: 'hungerLow', hunger: 20 })
+  })
+})
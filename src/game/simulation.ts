@@ -0,0 +1,202 @@
+import { GAME_MINS_PER_DAY, REAL_SEC_PER_GAME_MIN, TICK_MS } from './constants'
+import { hasBuff, updateFood } from './cooking'
+import { emit } from './events'
+import { growCrops, witherNeglectedCrops } from './farming'
+import { updateFishing } from './fishing'
+import { Inventory } from './items'
+import { canEnter, sailToNextIsland } from './islands'
+import { getDirectionTo } from './pathfinding'
+import { updateTide } from './tide'
+import { knockOut, passOut, PASS_OUT_MINUTES, RunSummary, updateHealth, WAKE_MINUTES } from './survival'
+import { Direction, ItemType, TileType } from './types'
+import { updateWeather } from './weather'
+import { spawnWildlife, updateWildlife } from './wildlife'
+import { checkRegrowth, getPlayerTile, getStepTarget, isInBounds, triggerTide, World } from './world'
+
+// --- Fixed-Timestep Simulation ---
+// Everything here is plain data in, plain data out: no DOM, canvas or React,
+// so it runs the same in the browser loop as it does in Node.
+
+const REGEN_INTERVAL_MS = 100
+const REST_TIME_SCALE = 20
+const BASE_SPEED = 0.03 // Tiles per tick
+const RAFT_SPEED_SCALE = 1.5
+const WALK_STEP_ENERGY = 0.1
+const PADDLE_STEP_ENERGY = 0.25
+const HUNGER_WARNINGS = [0, 20] // Most urgent first
+
+export interface SimInput {
+  move: Direction | null
+  rest: boolean
+}
+
+export type SimEvent =
+  | { type: 'statsChanged' }
+  | { type: 'minutePassed' }
+  | { type: 'dayStarted', day: number }
+  | { type: 'fishBite' }
+  | { type: 'fishEscaped' }
+  | { type: 'passedOut', lost: Inventory }
+  | { type: 'knockedOut', summary: RunSummary }
+  | { type: 'islandChanged', island: string }
+  | { type: 'stepped', x: number, y: number }
+  | { type: 'tideArrived', washedUp: { x: number, y: number }[] }
+  | { type: 'pathArrived', x: number, y: number } // Reached the thing a click-to-move route was heading for
+  | { type: 'lootStolen', item: ItemType, x: number, y: number }
+  | { type: 'foodSpoiled', lost: Inventory }
+  | { type: 'hungerLow', hunger: number } // Hunger fell to one of the warning levels
+
+export const IDLE_INPUT: SimInput = { move: null, rest: false }
+
+const advanceMinute = (world: World, events: SimEvent[]) => {
+  const { gameState, player } = world
+  gameState.timeOfDay += 1
+  gameState.totalMinutes += 1
+  updateHealth(world)
+  updateTide(world)
+  updateWeather(world)
+  const spoiled = updateFood(world)
+  if (Object.keys(spoiled).length > 0) events.push({ type: 'foodSpoiled', lost: spoiled })
+  if (gameState.timeOfDay % (hasBuff(gameState, 'well_fed') ? 40 : 20) === 0) player.hunger = Math.max(0, player.hunger - 1)
+  if (gameState.timeOfDay % 20 === 0) { checkRegrowth(world); growCrops(world, 20) }
+  if (gameState.timeOfDay % 60 === 0) spawnWildlife(world)
+  if (gameState.timeOfDay >= GAME_MINS_PER_DAY) {
+    gameState.timeOfDay -= GAME_MINS_PER_DAY
+    gameState.day += 1
+    witherNeglectedCrops(world)
+    events.push({ type: 'tideArrived', washedUp: triggerTide(world) })
+    events.push({ type: 'dayStarted', day: gameState.day })
+    emit(world.bus, { type: 'dayPassed', day: gameState.day })
+  }
+}
+
+const regenerate = (world: World, events: SimEvent[]) => {
+  const { player, clock } = world
+  clock.regenTimer += TICK_MS
+  if (clock.regenTimer < REGEN_INTERVAL_MS) return
+  clock.regenTimer -= REGEN_INTERVAL_MS
+  if (player.isResting) {
+     player.energy = Math.min(100, player.energy + 1.0) 
+     if (player.energy < 100) player.hunger = Math.max(0, player.hunger - 0.05) 
+  } else if (!player.isMoving && player.hunger > 50) {
+     player.energy = Math.min(100, player.energy + 0.05) 
+  }
+  events.push({ type: 'statsChanged' })
+}
+
+const advanceClock = (world: World, events: SimEvent[]) => {
+  const { player, clock } = world
+  clock.timeAccumulator += player.isResting ? TICK_MS * REST_TIME_SCALE : TICK_MS
+  const msPerGameMin = REAL_SEC_PER_GAME_MIN * 1000
+  if (clock.timeAccumulator < msPerGameMin) return
+  while (clock.timeAccumulator >= msPerGameMin) {
+    clock.timeAccumulator -= msPerGameMin
+    advanceMinute(world, events)
+    // Anyone still up at 2 AM collapses and sleeps through to morning
+    if (world.gameState.timeOfDay === PASS_OUT_MINUTES && !player.isResting) {
+      events.push({ type: 'passedOut', lost: passOut(world) })
+      while (world.gameState.timeOfDay !== WAKE_MINUTES) advanceMinute(world, events)
+      clock.timeAccumulator = 0
+    }
+  }
+  events.push({ type: 'minutePassed' })
+}
+
+export const getMoveSpeed = (world: World): number => {
+  let speed = BASE_SPEED
+  if (world.player.energy <= 0) speed *= 0.5
+  if (world.player.onRaft) speed *= RAFT_SPEED_SCALE
+  else if (getPlayerTile(world).type === TileType.ShallowWater) speed *= 0.5
+  return speed
+}
+
+// Takes the next step of a click-to-move route, or finishes it facing the target
+const followPath = (world: World, events: SimEvent[]) => {
+  const { player, map } = world
+  const path = world.path!
+  const next = path.steps.shift()
+  if (!next) {
+    world.path = null
+    if (!path.target) return
+    player.facing = getDirectionTo(player, path.target.x, path.target.y) ?? player.facing
+    events.push({ type: 'pathArrived', x: path.target.x, y: path.target.y })
+    return
+  }
+  const direction = getDirectionTo(player, next.x, next.y)
+  // Something got in the way since the route was planned
+  if (!direction || !canEnter(world, map[next.y][next.x])) {
+    world.path = null
+    return
+  }
+  world.fishing = null
+  player.facing = direction
+  player.targetX = next.x
+  player.targetY = next.y
+  player.isMoving = true
+}
+
+const movePlayer = (world: World, input: SimInput, events: SimEvent[]) => {
+  const { player, map } = world
+  const speed = getMoveSpeed(world)
+
+  if (player.isMoving) {
+    const dx = player.targetX - player.x
+    const dy = player.targetY - player.y
+    if (Math.abs(dx) > speed) player.x += Math.sign(dx) * speed
+    else player.x = player.targetX
+    if (Math.abs(dy) > speed) player.y += Math.sign(dy) * speed
+    else player.y = player.targetY
+
+    if (player.x === player.targetX && player.y === player.targetY) {
+      player.isMoving = false
+      if (!hasBuff(world.gameState, 'energized')) player.energy = Math.max(0, player.energy - (player.onRaft ? PADDLE_STEP_ENERGY : WALK_STEP_ENERGY))
+      events.push({ type: 'stepped', x: player.x, y: player.y })
+    }
+  } else if (!player.isResting && input.move) {
+    // Walking off reels the line back in, and steering by hand abandons any route
+    world.fishing = null
+    world.path = null
+    player.facing = input.move
+    const next = getStepTarget(player, input.move)
+    if (!isInBounds(next.x, next.y) && player.onRaft) {
+      sailToNextIsland(world, input.move)
+      events.push({ type: 'islandChanged', island: world.gameState.island })
+    } else if (isInBounds(next.x, next.y) && canEnter(world, map[next.y][next.x])) {
+      player.targetX = next.x
+      player.targetY = next.y
+      player.isMoving = true
+    }
+  } else if (!player.isResting && world.path) {
+    followPath(world, events)
+  }
+}
+
+// Advances the world by exactly one tick
+export const step = (world: World, input: SimInput): SimEvent[] => {
+  const events: SimEvent[] = []
+  world.player.isResting = input.rest
+  regenerate(world, events)
+  advanceClock(world, events)
+  if (world.player.health <= 0) events.push({ type: 'knockedOut', summary: knockOut(world) })
+  const fishing = updateFishing(world)
+  if (fishing === 'bite') events.push({ type: 'fishBite' })
+  else if (fishing === 'escaped') events.push({ type: 'fishEscaped' })
+  movePlayer(world, input, events)
+  for (const theft of updateWildlife(world)) events.push({ type: 'lootStolen', ...theft })
+  return events
+}
+
+// Advances the world by `dt` real milliseconds in fixed ticks, carrying the remainder to the next call
+export const simulate = (world: World, input: SimInput, dt: number): SimEvent[] => {
+  const { clock, player } = world
+  const events: SimEvent[] = []
+  const hungerBefore = player.hunger
+  clock.tickAccumulator += dt
+  while (clock.tickAccumulator >= TICK_MS) {
+    clock.tickAccumulator -= TICK_MS
+    events.push(...step(world, input))
+  }
+  const warning = HUNGER_WARNINGS.find(level => hungerBefore > level && player.hunger <= level)
+  if (warning !== undefined) events.push({ type: 'hungerLow', hunger: warning })
+  return events
+}
@@ -0,0 +1,145 @@
+import { markTileChanged } from './chunks'
+import { getCarriedSince, mixFreshness } from './cooking'
+import { addStack, addToInventory, countItem, getRoomFor, removeFromInventory } from './inventory'
+import { emit } from './events'
+import { addItem, Inventory, ITEM_PROPS, removeItem } from './items'
+import { ActionResult, done, ItemStack, ItemType, refuse, Tile, TileType } from './types'
+import { isInBounds, World } from './world'
+
+// --- Storage Chests ---
+
+const SPILL_RADIUS = 4
+
+export const isContainer = (tile: Tile): boolean => !!tile.placedStructure && !!ITEM_PROPS[tile.placedStructure]?.container
+
+// Gives a freshly placed container its own empty inventory
+export const initStorage = (tile: Tile) => {
+  if (isContainer(tile)) tile.storage = {}
+}
+
+// Moves all of an item between the player and the chest at (x, y). Chests have
+// no slots, but taking out only takes as much as the player has room for. Worn
+// tools keep their wear in the chest and come out again first; food keeps its age
+export const transferStack = (world: World, x: number, y: number, item: ItemType, toChest: boolean): ActionResult => {
+  if (!isInBounds(x, y) || !isContainer(world.map[y][x])) return refuse('There is no chest there.')
+  const tile = world.map[y][x]
+  const { gameState } = world
+  const storage = tile.storage ?? (tile.storage = {})
+  if (toChest) {
+    const amount = countItem(gameState.inventory, item)
+    if (amount <= 0) return refuse(`You have no ${item}.`)
+    const worn = gameState.inventory.flatMap(stack => stack?.item === item && stack.durability !== undefined ? [stack.durability] : [])
+    if (worn.length) tile.storedDurability = { ...tile.storedDurability, [item]: [...(tile.storedDurability?.[item] ?? []), ...worn] }
+    const since = getCarriedSince(gameState, item)
+    if (since !== undefined) {
+      const stored = storage[item] || 0
+      const age = Math.round(((tile.storedAge?.[item] ?? 0) * stored + (gameState.totalMinutes - since) * amount) / (stored + amount))
+      tile.storedAge = { ...tile.storedAge, [item]: age }
+    }
+    removeFromInventory(gameState, item, amount)
+    addItem(storage, item, amount)
+  } else {
+    const amount = Math.min(storage[item] || 0, getRoomFor(gameState, item))
+    if (!storage[item]) return refuse(`The chest has no ${item}.`)
+    if (amount <= 0) return refuse('Your bag is full.')
+    const worn = takeWornTools(tile, item, amount)
+    const age = tile.storedAge?.[item]
+    if (age !== undefined) mixFreshness(gameState, item, amount, gameState.totalMinutes - age)
+    removeItem(storage, item, amount)
+    if (!storage[item] && tile.storedAge) delete tile.storedAge[item]
+    for (const stack of worn) addStack(gameState, stack)
+    addToInventory(gameState, item, amount - worn.length)
+  }
+  markTileChanged(world, x, y)
+  return done
+}
+
+// A single item on its way out of a container or the bag, with any wear or age it carries
+interface LooseItem {
+  item: ItemType
+  durability?: number
+  since?: number
+}
+
+// Takes up to `amount` of the worn copies of a tool out of a container's records
+const takeWornTools = (tile: Tile, item: ItemType, amount: number): ItemStack[] => {
+  const stored = tile.storedDurability?.[item]
+  if (!tile.storedDurability || !stored) return []
+  const taken = stored.splice(0, amount)
+  if (!stored.length) delete tile.storedDurability[item]
+  return taken.map(durability => ({ item, count: 1, durability }))
+}
+
+// Puts items straight into the player's slots, setting down at their feet whatever doesn't fit.
+// Worn tools (with `durability` set) each take a slot of their own and keep their wear
+export const giveItem = (world: World, item: ItemType, amount = 1, durability?: number) => {
+  const { gameState } = world
+  const overflow = durability === undefined
+    ? addToInventory(gameState, item, amount)
+    : Array.from({ length: amount }).filter(() => !addStack(gameState, { item, count: 1, durability })).length
+  if (overflow > 0) scatterItems(world, Math.round(world.player.x), Math.round(world.player.y), Array.from({ length: overflow }, () => ({ item, durability })))
+}
+
+// Clears a placed structure, spilling anything it was storing
+export const removeStructure = (world: World, x: number, y: number) => {
+  const tile = world.map[y][x]
+  if (isContainer(tile)) spillStorage(world, x, y)
+  tile.placedStructure = undefined
+  tile.structureDamage = undefined
+  tile.fuelUntil = undefined
+  markTileChanged(world, x, y)
+}
+
+export const canSpillOnto = (tile: Tile): boolean => {
+  return (tile.type === TileType.Sand || tile.type === TileType.Grass) && !tile.item && !tile.placedStructure && !tile.crop
+}
+
+// Scatters a broken container's contents around it
+export const spillStorage = (world: World, x: number, y: number) => {
+  const tile = world.map[y][x]
+  const items: LooseItem[] = []
+  for (const [key, amount = 0] of Object.entries(tile.storage ?? {})) {
+    const item = key as ItemType
+    const worn = takeWornTools(tile, item, amount)
+    items.push(...worn)
+    const age = tile.storedAge?.[item]
+    const since = age === undefined ? undefined : world.gameState.totalMinutes - age
+    for (let i = worn.length; i < amount; i++) items.push({ item, since })
+  }
+  tile.storage = undefined
+  tile.storedDurability = undefined
+  tile.storedAge = undefined
+  scatterItems(world, x, y, items)
+}
+
+// Lays single items out one per tile, nearest tiles first. Anything that doesn't fit
+// within the radius goes to the player if they have room, and is lost (and announced) if not
+const scatterItems = (world: World, x: number, y: number, items: LooseItem[]) => {
+  const spots: { x: number, y: number, dist: number }[] = []
+  for (let dy = -SPILL_RADIUS; dy <= SPILL_RADIUS; dy++) {
+    for (let dx = -SPILL_RADIUS; dx <= SPILL_RADIUS; dx++) {
+      const tx = x + dx, ty = y + dy
+      if (isInBounds(tx, ty) && canSpillOnto(world.map[ty][tx])) spots.push({ x: tx, y: ty, dist: dx * dx + dy * dy })
+    }
+  }
+  spots.sort((a, b) => a.dist - b.dist)
+
+  const lost: Inventory = {}
+  items.forEach((loose, i) => {
+    const spot = spots[i]
+    if (!spot) {
+      const { item, durability, since } = loose
+      if (!getRoomFor(world.gameState, item)) { addItem(lost, item); return }
+      if (since !== undefined) mixFreshness(world.gameState, item, 1, since)
+      if (durability === undefined) addToInventory(world.gameState, item)
+      else addStack(world.gameState, { item, count: 1, durability })
+      return
+    }
+    const tile = world.map[spot.y][spot.x]
+    tile.item = loose.item
+    tile.itemDurability = loose.durability
+    tile.itemSince = loose.since
+    markTileChanged(world, spot.x, spot.y)
+  })
+  for (const [item, amount = 0] of Object.entries(lost)) emit(world.bus, { type: 'itemsLost', item: item as ItemType, amount })
+}
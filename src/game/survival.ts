@@ -0,0 +1,70 @@
+import { MAP_HEIGHT, MAP_WIDTH } from './constants'
+import { HOME_ISLAND, setIsland } from './islands'
+import { getTotals, removeFromInventory } from './inventory'
+import { Inventory, ITEM_PROPS } from './items'
+import { ItemType } from './types'
+import { World } from './world'
+
+// --- Health & Survival ---
+
+export const PASS_OUT_MINUTES = 2 * 60
+export const WAKE_MINUTES = 6 * 60
+const STARVE_DAMAGE_PER_MIN = 0.5
+const HEAL_PER_MIN = 0.1
+const REST_HEAL_PER_MIN = 0.5
+const PASS_OUT_LOSS = 0.2 // Share of each carried resource stack dropped when passing out
+
+export interface RunSummary {
+  daysSurvived: number
+  itemsGathered: number
+}
+
+// Starving hurts; being fed heals, faster while resting
+export const updateHealth = (world: World) => {
+  const player = world.player
+  if (player.hunger <= 0) {
+    player.health = Math.max(0, player.health - STARVE_DAMAGE_PER_MIN)
+  } else if (player.hunger > 50) {
+    player.health = Math.min(100, player.health + (player.isResting ? REST_HEAL_PER_MIN : HEAL_PER_MIN))
+  }
+}
+
+// Collapsing from exhaustion costs energy and some of what's being carried
+export const passOut = (world: World): Inventory => {
+  const { player, gameState } = world
+  const lost: Inventory = {}
+  for (const [key, count] of Object.entries(getTotals(gameState.inventory))) {
+    const item = key as ItemType
+    const category = ITEM_PROPS[item]?.category
+    if (category !== 'resource' && category !== 'seed') continue
+    const amount = Math.floor((count || 0) * PASS_OUT_LOSS)
+    if (amount > 0) {
+      removeFromInventory(gameState, item, amount)
+      lost[item] = amount
+    }
+  }
+  player.energy = Math.min(player.energy, 25)
+  world.fishing = null
+  world.path = null
+  player.isMoving = false
+  player.x = player.targetX
+  player.y = player.targetY
+  return lost
+}
+
+// Ends the current run: the player washes back up at the island's centre with only their tools
+export const knockOut = (world: World): RunSummary => {
+  const { player, gameState } = world
+  const summary: RunSummary = {
+    daysSurvived: gameState.day - gameState.stats.runStartDay,
+    itemsGathered: gameState.stats.itemsGathered,
+  }
+
+  gameState.inventory = gameState.inventory.map(stack => stack && ITEM_PROPS[stack.item]?.category === 'tool' ? stack : null)
+  const spawnX = Math.floor(MAP_WIDTH / 2)
+  const spawnY = Math.floor(MAP_HEIGHT / 2)
+  setIsland(world, HOME_ISLAND)
+  Object.assign(player, { x: spawnX, y: spawnY, targetX: spawnX, targetY: spawnY, isMoving: false, facing: 'down', health: 50, hunger: 50, energy: 50, onRaft: undefined })
+  gameState.stats = { runStartDay: gameState.day, itemsGathered: 0 }
+  return summary
+}
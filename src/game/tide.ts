@@ -0,0 +1,109 @@
+import { markTileChanged } from './chunks'
+import { MAP_HEIGHT, MAP_WIDTH, SHORELINE_ELEVATION, TIDE_RANGE } from './constants'
+import { getIslandSeed } from './islands'
+import { createRng, deriveSeed } from './rng'
+import { GameState, Tile, TileType } from './types'
+import { getTodaysWeather } from './weather'
+import { isInBounds, World } from './world'
+
+// --- Tidal Cycle ---
+// Two highs and two lows a day, like a real semi-diurnal tide. Each island's
+// cycle starts at a different point, so no two islands or seeds share a timetable.
+
+export const TIDE_PERIOD_MINUTES = 745
+const STORM_SURGE = 0.02
+const TIDE_POOL_CHANCE = 0.25
+const CLAM_CHANCE = 0.3
+
+export interface TideStatus {
+  level: number // -1 low .. 1 high
+  rising: boolean
+  minutesToTurn: number
+}
+
+const getTidePhase = (gameState: GameState): number => {
+  const offset = (getIslandSeed(gameState.seed, gameState.island) % 1000) / 1000
+  return 2 * Math.PI * (gameState.totalMinutes / TIDE_PERIOD_MINUTES + offset)
+}
+
+export const getTideStatus = (gameState: GameState): TideStatus => {
+  const phase = getTidePhase(gameState)
+  // Highs and lows sit a half-turn apart at phase π/2 + kπ
+  const untilTurn = ((Math.PI / 2 - phase) % Math.PI + Math.PI) % Math.PI
+  return {
+    level: Math.sin(phase),
+    rising: Math.cos(phase) > 0,
+    minutesToTurn: Math.round(untilTurn / (2 * Math.PI) * TIDE_PERIOD_MINUTES),
+  }
+}
+
+export const getWaterline = (gameState: GameState): number => {
+  const surge = getTodaysWeather(gameState) === 'storm' ? STORM_SURGE : 0
+  return SHORELINE_ELEVATION + Math.sin(getTidePhase(gameState)) * TIDE_RANGE + surge
+}
+
+// Exposed pools sit in the lower half of the beach
+export const isTidePool = (tile: Tile): boolean => {
+  return tile.type === TileType.Sand && tile.elevation !== undefined && tile.elevation < SHORELINE_ELEVATION && (tile.variant || 0) < TIDE_POOL_CHANCE
+}
+
+// Pushes a loose item one tile up the beach, or loses it to the sea
+const washItem = (world: World, x: number, y: number) => {
+  const tile = world.map[y][x]
+  const item = tile.item
+  const { itemDurability, itemSince } = tile
+  tile.item = undefined
+  tile.itemDurability = undefined
+  tile.itemSince = undefined
+  markTileChanged(world, x, y)
+  if (!item || item === 'clam') return
+
+  let best: { tile: Tile, x: number, y: number } | null = null
+  for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+    if (!isInBounds(x + dx, y + dy)) continue
+    const neighbor = world.map[y + dy][x + dx]
+    if (neighbor.type === TileType.DeepWater || neighbor.type === TileType.ShallowWater) continue
+    if (neighbor.item || neighbor.placedStructure || neighbor.crop) continue
+    if (!best || (neighbor.elevation ?? 1) > (best.tile.elevation ?? 1)) best = { tile: neighbor, x: x + dx, y: y + dy }
+  }
+  if (best) {
+    best.tile.item = item
+    best.tile.itemDurability = itemDurability
+    best.tile.itemSince = itemSince
+    markTileChanged(world, best.x, best.y)
+  }
+}
+
+const floodTile = (world: World, x: number, y: number) => {
+  const tile = world.map[y][x]
+  tile.type = TileType.ShallowWater
+  markTileChanged(world, x, y)
+  if (tile.item && tile.item !== 'tree' && tile.item !== 'tree_stump') washItem(world, x, y)
+  tile.tilled = undefined
+  tile.crop = undefined
+}
+
+const exposeTile = (world: World, x: number, y: number) => {
+  const tile = world.map[y][x]
+  tile.type = TileType.Sand
+  markTileChanged(world, x, y)
+  if (isTidePool(tile) && !tile.item && !tile.placedStructure) {
+    const { gameState } = world
+    const roll = createRng(deriveSeed(getIslandSeed(gameState.seed, gameState.island), gameState.totalMinutes, x, y))()
+    if (roll < CLAM_CHANCE) tile.item = 'clam'
+  }
+}
+
+// Moves the waterline across the beach to match the current tide
+export const updateTide = (world: World) => {
+  const waterline = getWaterline(world.gameState)
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const tile = world.map[y][x]
+      if (tile.elevation === undefined) continue
+      const submerged = tile.elevation <= waterline
+      if (submerged && tile.type === TileType.Sand) floodTile(world, x, y)
+      else if (!submerged && tile.type === TileType.ShallowWater) exposeTile(world, x, y)
+    }
+  }
+}
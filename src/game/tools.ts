@@ -0,0 +1,69 @@
+import { Inventory, RECIPES } from './items'
+import { ItemStack, ItemType } from './types'
+import { World } from './world'
+
+// --- Tools ---
+
+export type ToolKind = 'axe' | 'pickaxe' | 'hammer' | 'hoe' | 'fishing_rod'
+export type ToolTier = 'driftwood' | 'metal'
+
+// `energy` and `bonus` only apply to gathering tools: energy per swing and extra units of the main drop
+export interface ToolStats {
+  kind: ToolKind
+  tier: ToolTier
+  durability: number
+  energy?: number
+  bonus?: number
+}
+
+export const TOOLS: { [key in ItemType]?: ToolStats } = {
+  driftwood_axe: { kind: 'axe', tier: 'driftwood', durability: 20, energy: 14, bonus: 0 },
+  axe: { kind: 'axe', tier: 'metal', durability: 60, energy: 10, bonus: 1 },
+  driftwood_pickaxe: { kind: 'pickaxe', tier: 'driftwood', durability: 20, energy: 16, bonus: 0 },
+  pickaxe: { kind: 'pickaxe', tier: 'metal', durability: 60, energy: 12, bonus: 1 },
+  hammer: { kind: 'hammer', tier: 'metal', durability: 80, energy: 4 },
+  hoe: { kind: 'hoe', tier: 'metal', durability: 80 },
+  fishing_rod: { kind: 'fishing_rod', tier: 'metal', durability: 40 }
+}
+
+// Share of a tool's recipe it costs to restore it to full durability
+const REPAIR_RATIO = 0.5
+
+// Uses left on a tool; stacks without a value are untouched tools
+export const getDurability = (stack: ItemStack): number => {
+  return stack.durability ?? TOOLS[stack.item]?.durability ?? 0
+}
+
+export const getDurabilityRatio = (stack: ItemStack): number => {
+  const max = TOOLS[stack.item]?.durability
+  return max ? getDurability(stack) / max : 1
+}
+
+// Uses up one point of durability on the first copy of the tool in the slots,
+// returning the tool if that broke it
+export const wearTool = (world: World, item: ItemType): ItemType | undefined => {
+  const { inventory } = world.gameState
+  const index = inventory.findIndex(stack => stack?.item === item)
+  const stack = inventory[index]
+  if (!TOOLS[item] || !stack) return undefined
+  const left = getDurability(stack) - 1
+  if (left > 0) {
+    stack.durability = left
+    return undefined
+  }
+  // Any other copy left in the stack starts fresh
+  delete stack.durability
+  stack.count -= 1
+  if (stack.count <= 0) inventory[index] = null
+  return item
+}
+
+export const getRepairCost = (item: ItemType): Inventory => {
+  const cost: Inventory = {}
+  const recipe = RECIPES.find(r => r.result === item)
+  if (!recipe) return cost
+  for (const [ingredient, amount] of Object.entries(recipe.ingredients)) {
+    cost[ingredient as ItemType] = Math.ceil((amount || 0) * REPAIR_RATIO)
+  }
+  return cost
+}
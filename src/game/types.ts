@@ -0,0 +1,167 @@
+// --- Shared Game Types ---
+
+export enum TileType {
+  DeepWater = 0,
+  ShallowWater = 1,
+  Sand = 2,
+  Grass = 3,
+}
+
+// Runtime lists back the union types so saved data can be checked against them
+export const ITEM_TYPES = [
+  'driftwood', 'crate', 'metal', 'axe', 'wood', 'coconut', 'tree', 'tree_stump', 'wall_wood',
+  'fishing_rod', 'sardine', 'mackerel', 'snapper', 'tuna', 'squid',
+  'hoe', 'watering_can', 'carrot_seeds', 'melon_seeds', 'carrot', 'melon',
+  'clam', 'workbench', 'furnace', 'chest', 'hammer',
+  'driftwood_axe', 'pickaxe', 'driftwood_pickaxe', 'stone', 'rock', 'ore', 'rubble', 'raft', 'crab',
+  'campfire', 'grilled_fish', 'roast_crab', 'clam_chowder', 'fish_stew', 'seafood_feast',
+] as const
+export const CROP_TYPES = ['carrot', 'melon'] as const
+export const DIRECTIONS = ['up', 'down', 'left', 'right'] as const
+export const ENTITY_KINDS = ['crab', 'gull'] as const
+export const ENTITY_STATES = ['idle', 'walk', 'flee', 'hide', 'fly', 'leave'] as const
+export const BUFF_TYPES = ['well_fed', 'energized', 'warm'] as const
+
+export type ItemType = typeof ITEM_TYPES[number]
+export type Direction = typeof DIRECTIONS[number]
+export type ItemCategory = 'tool' | 'structure' | 'seed' | 'resource'
+export type CropType = typeof CROP_TYPES[number]
+export type CraftingStation = 'workbench' | 'furnace' | 'campfire'
+export type EntityKind = typeof ENTITY_KINDS[number]
+export type EntityState = typeof ENTITY_STATES[number]
+export type BuffType = typeof BUFF_TYPES[number]
+
+export interface Crop {
+  type: CropType
+  plantedDay: number
+  growth: number // Game minutes spent growing while watered
+  lastWateredDay: number // 0 until first watered
+  withered: boolean
+}
+
+export interface Tile {
+  type: TileType
+  item?: ItemType
+  itemDurability?: number // Uses left on a worn tool lying here
+  itemSince?: number // When a perishable lying here started ageing, in total minutes
+  stumpChoppedAt?: number
+  minedAt?: number // When a rock or ore node was mined down to rubble
+  placedStructure?: ItemType
+  variant?: number 
+  tilled?: boolean
+  crop?: Crop
+  storage?: { [key in ItemType]?: number } // Contents of a placed container
+  storedDurability?: { [key in ItemType]?: number[] } // Uses left on each worn tool in the container
+  storedAge?: { [key in ItemType]?: number } // Average age in minutes of each perishable in the container, which stops the clock
+  structureDamage?: number // Hammer hits taken by the placed structure
+  elevation?: number // Set on intertidal tiles; the tide floods them when the waterline rises above it
+  fuelUntil?: number // When a placed campfire burns out, in total minutes
+}
+
+export interface Player {
+  x: number
+  y: number
+  targetX: number
+  targetY: number
+  isMoving: boolean
+  facing: Direction
+  energy: number
+  hunger: number
+  health: number
+  isResting: boolean
+  onRaft?: boolean
+}
+
+// Wildlife moving around the current island, see wildlife.ts
+export interface Entity {
+  id: number
+  kind: EntityKind
+  x: number
+  y: number
+  targetX: number
+  targetY: number
+  state: EntityState
+  timer: number // Ticks left in the current state
+  rolls: number // Random rolls used so far, so behaviour replays the same from a save
+  carrying?: ItemType
+}
+
+export interface Camera {
+  x: number
+  y: number
+}
+
+export interface GameState {
+  seed: string
+  day: number
+  timeOfDay: number 
+  totalMinutes: number
+  island: string // Key of the island the player is on, see islands.ts
+  inventory: (ItemStack | null)[] // Fixed slots, the hotbar first; see inventory.ts
+  pinned?: (ItemType | null)[] // Hotbar slots kept for an item even once it runs out
+  water?: number // Watering can charges
+  volume?: VolumeSettings // Unset until the player changes it
+  buffs?: { [key in BuffType]?: number } // When each active meal buff wears off, in total minutes
+  freshness?: { [key in ItemType]?: Freshness } // Age of each carried perishable stack, see cooking.ts
+  progress?: Progress // Unset until the first journal or achievement step
+  stats: RunStats
+}
+
+export interface ItemStack {
+  item: ItemType
+  count: number
+  durability?: number // Uses left on a worn tool; unset while it is untouched
+}
+
+// A stack's age is the average of when its items were picked up
+export interface Freshness {
+  since: number // Total minutes
+  count: number // Stack size when last checked, to spot newly added items
+}
+
+// Counts towards each journal objective and achievement by id, see progress.ts
+export interface Progress {
+  quests: { [id: string]: number }
+  achievements: { [id: string]: number }
+}
+
+// Each level runs from 0 (silent) to 1
+export interface VolumeSettings {
+  master: number
+  sfx: number
+  ambient: number
+}
+
+// Progress for the current life; reset when the player is knocked out
+export interface RunStats {
+  runStartDay: number
+  itemsGathered: number
+}
+
+export interface Recipe {
+  id: string
+  name: string
+  result: ItemType
+  amount: number
+  ingredients: { [key in ItemType]?: number }
+  station?: CraftingStation
+}
+
+// Every refused action says why, so the UI always has something to surface
+export type ActionResult = ActionDone | ActionRefused
+
+export interface ActionDone {
+  ok: true
+  gained?: { item: ItemType, amount: number }[]
+  container?: { x: number, y: number } // Set when the action opened a chest
+  cooking?: { x: number, y: number } // Set when the action opened a campfire to cook at
+  broken?: ItemType // Set when the action used up the last of a tool's durability
+}
+
+export interface ActionRefused {
+  ok: false
+  reason: string
+}
+
+export const done: ActionResult = { ok: true }
+export const refuse = (reason: string): ActionResult => ({ ok: false, reason })
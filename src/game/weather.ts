@@ -0,0 +1,86 @@
+import { markTileChanged } from './chunks'
+import { MAP_HEIGHT, MAP_WIDTH } from './constants'
+import { hasBuff } from './cooking'
+import { getIslandSeed } from './islands'
+import { ITEM_PROPS } from './items'
+import { createRng, deriveSeed, hashSeed } from './rng'
+import { removeStructure } from './storage'
+import { GameState, TileType } from './types'
+import { isInBounds, World } from './world'
+
+// --- Weather ---
+// Each day's weather is rolled from the seed, so tomorrow's forecast is
+// already known tonight and nothing extra needs saving.
+
+export type Weather = 'clear' | 'rain' | 'storm' | 'fog'
+
+const WEATHER_SALT = 0x57ea
+const WEATHER_WEIGHTS: Record<Weather, number> = { clear: 50, rain: 25, fog: 15, storm: 10 }
+// Extra energy lost per game minute while out in the open
+const EXPOSED_ENERGY_DRAIN: Record<Weather, number> = { clear: 0, rain: 0.03, fog: 0, storm: 0.1 }
+const STORM_DAMAGE_CHANCE = 0.04 // Per exposed structure per storm hour
+export const FORECAST_FROM_MINUTES = 18 * 60
+
+export const WEATHER_NAMES: Record<Weather, string> = {
+  clear: 'Clear',
+  rain: 'Rain',
+  storm: 'Storm',
+  fog: 'Fog'
+}
+
+export const getWeather = (seed: string, day: number): Weather => {
+  // Nobody washes up in a storm
+  if (day <= 1) return 'clear'
+  const entries = Object.entries(WEATHER_WEIGHTS) as [Weather, number][]
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  let pick = createRng(deriveSeed(hashSeed(seed), day, WEATHER_SALT))() * total
+  for (const [weather, weight] of entries) {
+    pick -= weight
+    if (pick < 0) return weather
+  }
+  return 'clear'
+}
+
+export const getTodaysWeather = (gameState: GameState): Weather => getWeather(gameState.seed, gameState.day)
+
+// Tomorrow's weather, once it is late enough in the day to see it coming
+export const getForecast = (gameState: GameState): Weather | null => {
+  return gameState.timeOfDay >= FORECAST_FROM_MINUTES ? getWeather(gameState.seed, gameState.day + 1) : null
+}
+
+// Huddling against walls on three sides keeps the weather off
+export const isSheltered = (world: World, x: number, y: number): boolean => {
+  let walls = 0
+  for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+    if (isInBounds(x + dx, y + dy) && world.map[y + dy][x + dx].placedStructure) walls++
+  }
+  return walls >= 3
+}
+
+// Structures out on the beach take the brunt of a storm
+const isExposed = (type: TileType): boolean => type === TileType.Sand || type === TileType.ShallowWater
+
+const batterStructures = (world: World) => {
+  const { map, gameState } = world
+  const baseSeed = getIslandSeed(gameState.seed, gameState.island)
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const tile = map[y][x]
+      if (!tile.placedStructure || !isExposed(tile.type)) continue
+      if (createRng(deriveSeed(baseSeed, gameState.totalMinutes, x, y))() >= STORM_DAMAGE_CHANCE) continue
+      tile.structureDamage = (tile.structureDamage || 0) + 1
+      markTileChanged(world, x, y)
+      if (tile.structureDamage >= (ITEM_PROPS[tile.placedStructure]?.hp || 1)) removeStructure(world, x, y)
+    }
+  }
+}
+
+// Runs once per game minute
+export const updateWeather = (world: World) => {
+  const { player, gameState } = world
+  const weather = getTodaysWeather(gameState)
+  if (!hasBuff(gameState, 'warm') && !isSheltered(world, Math.round(player.x), Math.round(player.y))) {
+    player.energy = Math.max(0, player.energy - EXPOSED_ENERGY_DRAIN[weather])
+  }
+  if (weather === 'storm' && gameState.timeOfDay % 60 === 0) batterStructures(world)
+}
@@ -0,0 +1,248 @@
+import { markTileChanged } from './chunks'
+import { MAP_HEIGHT, MAP_WIDTH, TICK_MS } from './constants'
+import { getRoomFor } from './inventory'
+import { createRng, deriveSeed, hashSeed, Rng } from './rng'
+import { ActionResult, Entity, EntityKind, ItemType, refuse, TileType } from './types'
+import { getTodaysWeather } from './weather'
+import { gatherItem, isInBounds, World } from './world'
+
+// --- Wildlife ---
+// Creatures only live on the island the player is on. Each runs a small state
+// machine every tick and rolls its decisions from the seed, so a reloaded save
+// plays out the same way. New arrivals turn up on the hour.
+//
+//   crab: idle <-> walk, flee when the player comes close, then hide (catchable)
+//   gull: fly to unattended beach loot, grab it, leave off the map edge
+
+const WILDLIFE_SALT = 0x3c4b
+const ticks = (seconds: number) => Math.round(seconds * 1000 / TICK_MS)
+
+const SPEEDS: Record<EntityKind, number> = { crab: 0.012, gull: 0.05 } // Tiles per tick
+const CRAB_FLEE_SPEED = 0.04
+const CRAB_SCARE_DISTANCE = 2.5
+const CRAB_FLEE_TICKS = ticks(1.5)
+const CRAB_HIDE_TICKS = ticks(4)
+const SHALLOWS_PER_CRAB = 50
+const MAX_CRABS = 6
+const CATCH_ENERGY = 3
+
+const GULL_SCARE_DISTANCE = 3
+const UNATTENDED_DISTANCE = 6 // Loot at least this far from the player is fair game
+const MAX_GULLS = 2
+const GULL_CHANCE = 0.4 // Per hour, while there is loot to steal
+const GULL_HOURS = [6, 18] // Gulls only come by day
+const GULL_LOOT = new Set<ItemType>(['driftwood', 'metal', 'clam', 'coconut', 'sardine', 'mackerel', 'carrot_seeds', 'melon_seeds'])
+
+export interface Theft {
+  item: ItemType
+  x: number
+  y: number
+}
+
+const entityRoll = (world: World, entity: Entity): number => {
+  return createRng(deriveSeed(hashSeed(world.gameState.seed), WILDLIFE_SALT, entity.id, entity.rolls++))()
+}
+
+const pick = <T>(rng: Rng, list: T[]): T | undefined => list[Math.floor(rng() * list.length)]
+
+const distanceToPlayer = (world: World, x: number, y: number): number => Math.hypot(world.player.x - x, world.player.y - y)
+
+const isCrabTile = (world: World, x: number, y: number): boolean => {
+  if (!isInBounds(x, y)) return false
+  const tile = world.map[y][x]
+  return tile.type === TileType.ShallowWater && !tile.item && !tile.placedStructure
+}
+
+const crabMoves = (world: World, entity: Entity): { x: number, y: number }[] => {
+  return [[0, -1], [0, 1], [-1, 0], [1, 0]]
+    .map(([dx, dy]) => ({ x: entity.x + dx, y: entity.y + dy }))
+    .filter(({ x, y }) => isCrabTile(world, x, y))
+}
+
+// Moves towards the target, returning true once there
+const stepToward = (entity: Entity, speed: number): boolean => {
+  const dx = entity.targetX - entity.x
+  const dy = entity.targetY - entity.y
+  const length = Math.hypot(dx, dy)
+  if (length <= speed) {
+    entity.x = entity.targetX
+    entity.y = entity.targetY
+    return true
+  }
+  entity.x += dx / length * speed
+  entity.y += dy / length * speed
+  return false
+}
+
+// --- Crabs ---
+
+const startFleeing = (world: World, entity: Entity): boolean => {
+  const away = crabMoves(world, entity)
+    .filter(spot => distanceToPlayer(world, spot.x, spot.y) > distanceToPlayer(world, entity.x, entity.y))
+    .sort((a, b) => distanceToPlayer(world, b.x, b.y) - distanceToPlayer(world, a.x, a.y))[0]
+  if (!away) return false
+  entity.state = 'flee'
+  entity.targetX = away.x
+  entity.targetY = away.y
+  return true
+}
+
+const hide = (entity: Entity) => {
+  entity.state = 'hide'
+  entity.timer = CRAB_HIDE_TICKS
+}
+
+const updateCrab = (world: World, entity: Entity) => {
+  switch (entity.state) {
+    case 'walk':
+      // A step always finishes, so crabs only ever turn on whole tiles
+      if (stepToward(entity, SPEEDS.crab)) {
+        entity.state = 'idle'
+        entity.timer = ticks(1 + entityRoll(world, entity) * 3)
+      }
+      return
+    case 'idle': {
+      if (distanceToPlayer(world, entity.x, entity.y) < CRAB_SCARE_DISTANCE) {
+        entity.timer = CRAB_FLEE_TICKS
+        if (!startFleeing(world, entity)) hide(entity)
+        return
+      }
+      if (--entity.timer > 0) return
+      const next = pick(() => entityRoll(world, entity), crabMoves(world, entity))
+      if (!next) {
+        entity.timer = ticks(2)
+        return
+      }
+      entity.state = 'walk'
+      entity.targetX = next.x
+      entity.targetY = next.y
+      return
+    }
+    case 'flee':
+      entity.timer--
+      if (!stepToward(entity, CRAB_FLEE_SPEED)) return
+      if (entity.timer <= 0 || !startFleeing(world, entity)) hide(entity)
+      return
+    case 'hide':
+      if (--entity.timer <= 0) {
+        entity.state = 'idle'
+        entity.timer = ticks(1)
+      }
+      return
+  }
+}
+
+export const findEntityAt = (world: World, x: number, y: number, kind: EntityKind): Entity | undefined => {
+  return world.entities.find(entity => entity.kind === kind && Math.round(entity.x) === x && Math.round(entity.y) === y)
+}
+
+export const catchCrab = (world: World, crab: Entity): ActionResult => {
+  if (crab.state === 'flee') return refuse('It scuttled out of reach.')
+  if (!getRoomFor(world.gameState, 'crab')) return refuse('Your bag is full.')
+  world.entities = world.entities.filter(entity => entity !== crab)
+  gatherItem(world, 'crab')
+  world.player.energy = Math.max(0, world.player.energy - CATCH_ENERGY)
+  return { ok: true, gained: [{ item: 'crab', amount: 1 }] }
+}
+
+// --- Gulls ---
+
+const isUnattendedLoot = (world: World, x: number, y: number): boolean => {
+  const tile = world.map[y][x]
+  return tile.type === TileType.Sand && !!tile.item && GULL_LOOT.has(tile.item) && distanceToPlayer(world, x, y) >= UNATTENDED_DISTANCE
+}
+
+// Heads for the nearest edge and a little beyond it
+const flyAway = (entity: Entity) => {
+  entity.state = 'leave'
+  const exits = [
+    { x: entity.x, y: -2, distance: entity.y },
+    { x: entity.x, y: MAP_HEIGHT + 1, distance: MAP_HEIGHT - entity.y },
+    { x: -2, y: entity.y, distance: entity.x },
+    { x: MAP_WIDTH + 1, y: entity.y, distance: MAP_WIDTH - entity.x },
+  ]
+  const exit = exits.sort((a, b) => a.distance - b.distance)[0]
+  entity.targetX = exit.x
+  entity.targetY = exit.y
+}
+
+// Returns true once the gull has left the island
+const updateGull = (world: World, entity: Entity, thefts: Theft[]): boolean => {
+  if (entity.state === 'leave') return stepToward(entity, SPEEDS.gull)
+  if (distanceToPlayer(world, entity.x, entity.y) < GULL_SCARE_DISTANCE) {
+    flyAway(entity)
+    return false
+  }
+  if (!stepToward(entity, SPEEDS.gull)) return false
+  const x = entity.targetX, y = entity.targetY
+  const tile = world.map[y][x]
+  if (tile.item && isUnattendedLoot(world, x, y)) {
+    entity.carrying = tile.item
+    thefts.push({ item: tile.item, x, y })
+    tile.item = undefined
+    tile.itemDurability = undefined
+    tile.itemSince = undefined
+    markTileChanged(world, x, y)
+  }
+  flyAway(entity)
+  return false
+}
+
+// --- Updates ---
+
+// Runs every tick; returns any loot the gulls made off with
+export const updateWildlife = (world: World): Theft[] => {
+  const thefts: Theft[] = []
+  const gone = new Set<Entity>()
+  for (const entity of world.entities) {
+    if (entity.kind === 'crab') updateCrab(world, entity)
+    else if (updateGull(world, entity, thefts)) gone.add(entity)
+  }
+  if (gone.size > 0) world.entities = world.entities.filter(entity => !gone.has(entity))
+  return thefts
+}
+
+const createEntity = (world: World, kind: EntityKind, x: number, y: number, state: Entity['state']): Entity => {
+  const id = world.entities.reduce((max, entity) => Math.max(max, entity.id), 0) + 1
+  const entity: Entity = { id, kind, x, y, targetX: x, targetY: y, state, timer: ticks(1), rolls: 0 }
+  world.entities.push(entity)
+  return entity
+}
+
+// Brings in new arrivals: one crab an hour up to what the shallows can hold (all of them
+// when `fill` is set, e.g. on landing), and by day a gull when there is loot lying around
+export const spawnWildlife = (world: World, fill = false) => {
+  const { gameState, entities } = world
+  const rng = createRng(deriveSeed(hashSeed(gameState.seed), WILDLIFE_SALT, gameState.totalMinutes))
+
+  const shallows: { x: number, y: number }[] = []
+  const loot: { x: number, y: number }[] = []
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      if (isCrabTile(world, x, y) && distanceToPlayer(world, x, y) > UNATTENDED_DISTANCE) shallows.push({ x, y })
+      if (isUnattendedLoot(world, x, y)) loot.push({ x, y })
+    }
+  }
+
+  const crabCap = Math.min(MAX_CRABS, Math.floor(shallows.length / SHALLOWS_PER_CRAB))
+  let crabs = entities.filter(entity => entity.kind === 'crab').length
+  while (crabs < crabCap) {
+    const spot = pick(rng, shallows)
+    if (!spot) break
+    createEntity(world, 'crab', spot.x, spot.y, 'idle')
+    crabs++
+    if (!fill) break
+  }
+
+  const hour = Math.floor(gameState.timeOfDay / 60)
+  const gulls = entities.filter(entity => entity.kind === 'gull').length
+  if (fill || hour < GULL_HOURS[0] || hour >= GULL_HOURS[1] || getTodaysWeather(gameState) === 'storm') return
+  if (gulls >= MAX_GULLS || rng() >= GULL_CHANCE) return
+  const target = pick(rng, loot)
+  if (!target) return
+  // Swoop in from whichever side is nearest the loot
+  const fromLeft = target.x < MAP_WIDTH / 2
+  const gull = createEntity(world, 'gull', fromLeft ? -2 : MAP_WIDTH + 1, target.y, 'fly')
+  gull.targetX = target.x
+  gull.targetY = target.y
+}
@@ -0,0 +1,226 @@
+import { MAP_HEIGHT, MAP_WIDTH, SHORELINE_ELEVATION, STATION_RANGE, TIDE_RANGE } from './constants'
+import { createNoise2D, createRng, deriveSeed, fractalNoise } from './rng'
+import { ChunkTracker, createChunkTracker, markIslandChanged, markTileChanged } from './chunks'
+import { isBurning } from './cooking'
+import { createEventBus, emit, EventBus } from './events'
+import { FishingState } from './fishing'
+import { BIOMES, getIslandBiome, getIslandSeed, HOME_ISLAND } from './islands'
+import { createInventory } from './inventory'
+import { rollLoot } from './loot'
+import { PlannedPath } from './pathfinding'
+import { trackProgress } from './progress'
+import { giveItem } from './storage'
+import { getWeather } from './weather'
+import { CraftingStation, Direction, Entity, GameState, ItemType, Player, Tile, TileType } from './types'
+
+// --- World State ---
+
+// Transient timers the simulation needs between ticks; never saved
+export interface SimClock {
+  tickAccumulator: number
+  timeAccumulator: number
+  regenTimer: number
+}
+
+export interface World {
+  map: Tile[][] // The island the player is on
+  islands: { [key: string]: Tile[][] } // Every visited island, including the current one
+  player: Player
+  gameState: GameState
+  clock: SimClock
+  fishing: FishingState | null
+  path: PlannedPath | null // Click-to-move route; never saved
+  entities: Entity[] // Wildlife on the current island
+  bus: EventBus // Never saved; listeners are attached again on load
+  chunks: ChunkTracker
+}
+
+// `map` is the home island; `islands` holds any others visited so far
+export const createWorld = (map: Tile[][], player: Player, gameState: GameState, islands: { [key: string]: Tile[][] } = {}, entities: Entity[] = []): World => {
+  const allIslands: { [key: string]: Tile[][] } = { ...islands, [HOME_ISLAND]: map }
+  const current = allIslands[gameState.island] ?? map
+  const world: World = { map: current, islands: allIslands, player, gameState, clock: { tickAccumulator: 0, timeAccumulator: 0, regenTimer: 0 }, fishing: null, path: null, entities, bus: createEventBus(), chunks: createChunkTracker() }
+  trackProgress(world)
+  // Nothing is known to be on disk yet, so the first save writes every chunk
+  for (const island of Object.keys(allIslands)) markIslandChanged(world, island)
+  return world
+}
+
+export const createInitialPlayer = (): Player => {
+  const initialX = Math.floor(MAP_WIDTH / 2)
+  const initialY = Math.floor(MAP_HEIGHT / 2)
+  return { x: initialX, y: initialY, targetX: initialX, targetY: initialY, isMoving: false, facing: 'down', energy: 100, hunger: 100, health: 100, isResting: false }
+}
+
+export const createInitialGameState = (seed: string): GameState => {
+  return { seed, day: 1, timeOfDay: 8 * 60, totalMinutes: 8 * 60, island: HOME_ISLAND, inventory: createInventory(), stats: { runStartDay: 1, itemsGathered: 0 } }
+}
+
+// --- Map Generation ---
+
+// Share of regrown rubble that comes back as ore rather than plain rock
+const ORE_REGROWTH_CHANCE = 0.25
+
+export const generateMap = (seed: string, island = HOME_ISLAND): Tile[][] => {
+  const biome = BIOMES[getIslandBiome(seed, island)]
+  const isHome = island === HOME_ISLAND
+  const baseSeed = getIslandSeed(seed, island)
+  const rng = createRng(baseSeed)
+  const coastNoise = createNoise2D(deriveSeed(baseSeed, 1))
+  const lagoonNoise = createNoise2D(deriveSeed(baseSeed, 2))
+  // Separate stream so rocks don't shift the tree and variant rolls of existing seeds
+  const rockRng = createRng(deriveSeed(baseSeed, 3))
+  const map: Tile[][] = []
+  const centerX = MAP_WIDTH / 2
+  const centerY = MAP_HEIGHT / 2
+  const maxRadius = Math.min(MAP_WIDTH, MAP_HEIGHT) / 2 * biome.size
+  const spawnX = Math.floor(centerX)
+  const spawnY = Math.floor(centerY)
+
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    const row: Tile[] = []
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const dx = (x - centerX) / maxRadius
+      const dy = (y - centerY) / maxRadius
+      const distance = Math.sqrt(dx * dx + dy * dy)
+      // Noise bends the radial falloff into coves and spits
+      const elevation = 1 - distance + (fractalNoise(coastNoise, x / 9, y / 9, 3) - 0.5) * 0.6
+      let type = TileType.DeepWater
+      let item: ItemType | undefined = undefined
+      let isBeach = false
+
+      // Rolls happen for every tile so the sequence never depends on terrain
+      const treeRoll = rng()
+      const variant = rng()
+      const rockRoll = rockRng()
+
+      if (distance < 0.95) {
+        if (elevation > 0.6) {
+          const isLagoon = distance > 0.15 && fractalNoise(lagoonNoise, x / 5, y / 5, 2) < biome.lagoons
+          type = isLagoon ? TileType.ShallowWater : TileType.Grass
+          if (!isLagoon && treeRoll < biome.trees) item = 'tree'
+          else if (!isLagoon && rockRoll < biome.ore) item = 'ore'
+          else if (!isLagoon && rockRoll < biome.rocks) item = 'rock'
+        } else if (elevation > SHORELINE_ELEVATION) {
+          type = TileType.Sand
+          isBeach = true
+        } else if (elevation > 0.14) {
+          type = TileType.ShallowWater
+          isBeach = true
+        }
+      }
+      if (isHome && x === spawnX && y === spawnY) item = undefined
+      const tile: Tile = { type, item, variant }
+      // Only beach tiles within the tide's reach remember their height
+      if (isBeach && Math.abs(elevation - SHORELINE_ELEVATION) <= TIDE_RANGE) tile.elevation = Math.round(elevation * 1000) / 1000
+      row.push(tile)
+    }
+    map.push(row)
+  }
+  return map
+}
+
+// --- Queries ---
+
+export const isInBounds = (x: number, y: number): boolean => x >= 0 && x < MAP_WIDTH && y >= 0 && y < MAP_HEIGHT
+
+export const getFacingTarget = (player: Player): { x: number, y: number } => {
+  let x = Math.round(player.x)
+  let y = Math.round(player.y)
+  switch (player.facing) {
+    case 'up': y -= 1; break;
+    case 'down': y += 1; break;
+    case 'left': x -= 1; break;
+    case 'right': x += 1; break;
+  }
+  return { x, y }
+}
+
+export const getStepTarget = (player: Player, direction: Direction): { x: number, y: number } => {
+  return getFacingTarget({ ...player, facing: direction })
+}
+
+export const isSolid = (tile: Tile): boolean => tile.type === TileType.DeepWater || !!tile.item || !!tile.placedStructure
+
+// True when a placed structure of the given station type is within reach of the player
+export const isNearStation = (world: World, station: CraftingStation): boolean => {
+  const px = Math.round(world.player.x)
+  const py = Math.round(world.player.y)
+  for (let y = py - STATION_RANGE; y <= py + STATION_RANGE; y++) {
+    for (let x = px - STATION_RANGE; x <= px + STATION_RANGE; x++) {
+      if (!isInBounds(x, y)) continue
+      const tile = world.map[y][x]
+      // A campfire only counts while it is burning
+      if (tile.placedStructure === station && (station !== 'campfire' || isBurning(tile, world.gameState.totalMinutes))) return true
+    }
+  }
+  return false
+}
+
+export const getPlayerTile = (world: World): Tile => {
+  const x = Math.max(0, Math.min(Math.round(world.player.x), MAP_WIDTH - 1))
+  const y = Math.max(0, Math.min(Math.round(world.player.y), MAP_HEIGHT - 1))
+  return world.map[y][x]
+}
+
+// --- Gathering ---
+
+// Adds an item found in the world (not crafted), counting it towards the run summary
+export const gatherItem = (world: World, item: ItemType, amount = 1, durability?: number) => {
+  giveItem(world, item, amount, durability)
+  world.gameState.stats.itemsGathered += amount
+  emit(world.bus, { type: 'itemGathered', item, amount })
+}
+
+// --- World Events ---
+
+// Returns where new items washed up
+export const triggerTide = (world: World): { x: number, y: number }[] => {
+  const { map, player, gameState } = world
+  const washedUp: { x: number, y: number }[] = []
+  // Each island's drops each day come from their own stream so the same seed washes up the same loot
+  const rng = createRng(deriveSeed(getIslandSeed(gameState.seed, gameState.island), gameState.day))
+  const table = getWeather(gameState.seed, gameState.day - 1) === 'storm' ? 'storm_tide' : BIOMES[getIslandBiome(gameState.seed, gameState.island)].tide
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const tile = map[y][x]
+      if (tile.type === TileType.Sand) {
+        // Rolled before the occupancy check so the stream stays in step
+        const [drop] = rollLoot(table, gameState.day, rng)
+        const isPlayerHere = Math.round(player.x) === x && Math.round(player.y) === y
+        if (drop && !tile.item && !isPlayerHere && !tile.placedStructure && !tile.tilled) {
+          tile.item = drop.item
+          markTileChanged(world, x, y)
+          washedUp.push({ x, y })
+        }
+      }
+    }
+  }
+  return washedUp
+}
+
+export const checkRegrowth = (world: World) => {
+  const { map, gameState } = world
+  const REGROWTH_TIME = 24 * 60 
+  const ROCK_REGROWTH_TIME = 3 * 24 * 60
+  for (let y = 0; y < MAP_HEIGHT; y++) {
+    for (let x = 0; x < MAP_WIDTH; x++) {
+      const tile = map[y][x]
+      if (tile.item === 'tree_stump' && tile.stumpChoppedAt) {
+        if (gameState.totalMinutes - tile.stumpChoppedAt >= REGROWTH_TIME) {
+          tile.item = 'tree'
+          tile.stumpChoppedAt = undefined
+          markTileChanged(world, x, y)
+        }
+      }
+      if (tile.item === 'rubble' && tile.minedAt) {
+        if (gameState.totalMinutes - tile.minedAt >= ROCK_REGROWTH_TIME) {
+          const roll = createRng(deriveSeed(getIslandSeed(gameState.seed, gameState.island), gameState.totalMinutes, x, y))()
+          tile.item = roll < ORE_REGROWTH_CHANCE ? 'ore' : 'rock'
+          tile.minedAt = undefined
+          markTileChanged(world, x, y)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { CSSProperties, PointerEvent as ReactPointerEvent, useRef, useState } from 'react'
+import { InputAction } from './bindings'
+import { InputState } from './controller'
+
+// --- Touch Controls ---
+// A virtual joystick on the left and action buttons on the right. The joystick
+// and Rest hold actions in `input.touch`; the other buttons fire once per tap.
+
+const JOYSTICK_SIZE = 120
+const KNOB_SIZE = 50
+const JOYSTICK_DEADZONE = 15 // Pixels from the centre before a direction registers
+
+const MOVE_ACTIONS: InputAction[] = ['moveUp', 'moveDown', 'moveLeft', 'moveRight']
+
+interface TouchControlsProps {
+  input: InputState
+  onAction: (action: InputAction) => void
+}
+
+const buttonStyle = (color: string): CSSProperties => ({
+  width: '64px', height: '64px', borderRadius: '50%', border: '2px solid rgba(255,255,255,0.4)',
+  background: color, color: 'white', fontFamily: 'monospace', fontSize: '0.8em', userSelect: 'none', touchAction: 'none'
+})
+
+function TouchControls({ input, onAction }: TouchControlsProps) {
+  const baseRef = useRef<HTMLDivElement>(null)
+  const [knob, setKnob] = useState({ x: 0, y: 0 })
+
+  const steer = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const rect = baseRef.current!.getBoundingClientRect()
+    const max = (JOYSTICK_SIZE - KNOB_SIZE) / 2
+    let dx = e.clientX - (rect.left + rect.width / 2)
+    let dy = e.clientY - (rect.top + rect.height / 2)
+    const length = Math.hypot(dx, dy)
+    if (length > max) { dx = dx / length * max; dy = dy / length * max }
+    setKnob({ x: dx, y: dy })
+
+    for (const action of MOVE_ACTIONS) input.touch.delete(action)
+    if (length < JOYSTICK_DEADZONE) return
+    if (Math.abs(dx) > Math.abs(dy)) input.touch.add(dx < 0 ? 'moveLeft' : 'moveRight')
+    else input.touch.add(dy < 0 ? 'moveUp' : 'moveDown')
+  }
+
+  const release = () => {
+    setKnob({ x: 0, y: 0 })
+    for (const action of MOVE_ACTIONS) input.touch.delete(action)
+  }
+
+  return (
+    <>
+      <div
+        ref={baseRef}
+        onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); steer(e) }}
+        onPointerMove={e => { if (e.currentTarget.hasPointerCapture(e.pointerId)) steer(e) }}
+        onPointerUp={release}
+        onPointerCancel={release}
+        style={{
+          position: 'absolute', left: 30, bottom: 140, width: JOYSTICK_SIZE, height: JOYSTICK_SIZE, borderRadius: '50%',
+          background: 'rgba(0,0,0,0.35)', border: '2px solid rgba(255,255,255,0.3)', touchAction: 'none'
+        }}>
+        <div style={{
+          position: 'absolute', width: KNOB_SIZE, height: KNOB_SIZE, borderRadius: '50%', background: 'rgba(255,255,255,0.5)',
+          left: (JOYSTICK_SIZE - KNOB_SIZE) / 2 + knob.x - 2, top: (JOYSTICK_SIZE - KNOB_SIZE) / 2 + knob.y - 2, pointerEvents: 'none'
+        }} />
+      </div>
+
+      <div style={{ position: 'absolute', right: 30, bottom: 140, display: 'grid', gridTemplateColumns: 'repeat(2, 64px)', gap: '12px' }}>
+        <button onPointerDown={() => onAction('craft')} style={buttonStyle('rgba(21, 101, 192, 0.7)')}>Craft</button>
+        <button onPointerDown={() => onAction('cancel')} style={buttonStyle('rgba(68, 68, 68, 0.7)')}>Back</button>
+        <button
+          onPointerDown={() => input.touch.add('rest')}
+          onPointerUp={() => input.touch.delete('rest')}
+          onPointerLeave={() => input.touch.delete('rest')}
+          style={buttonStyle('rgba(94, 53, 177, 0.7)')}>
+          Rest
+        </button>
+        <button onPointerDown={() => onAction('interact')} style={buttonStyle('rgba(46, 139, 87, 0.8)')}>Use</button>
+      </div>
+    </>
+  )
+}
+
+export default TouchControls
@@ -0,0 +1,140 @@
+// --- Input Actions ---
+// Game code asks about actions, never keys. Keys are matched by
+// `KeyboardEvent.code`, so Shift, Caps Lock and keyboard layout don't matter.
+
+export const INPUT_ACTIONS = [
+  'moveUp', 'moveDown', 'moveLeft', 'moveRight', 'interact', 'rest', 'craft', 'journal', 'log', 'drop', 'cancel',
+  'hotbar1', 'hotbar2', 'hotbar3', 'hotbar4', 'hotbar5', 'hotbar6', 'hotbar7', 'hotbar8', 'hotbar9',
+  'hotbarPrev', 'hotbarNext',
+] as const
+
+export type InputAction = typeof INPUT_ACTIONS[number]
+
+// Up to two keys per action
+export type Bindings = Record<InputAction, string[]>
+
+export const BINDING_SLOTS = 2
+
+export const DEFAULT_BINDINGS: Bindings = {
+  moveUp: ['KeyW', 'ArrowUp'],
+  moveDown: ['KeyS', 'ArrowDown'],
+  moveLeft: ['KeyA', 'ArrowLeft'],
+  moveRight: ['KeyD', 'ArrowRight'],
+  interact: ['KeyE', 'Space'],
+  rest: ['KeyR'],
+  craft: ['KeyC'],
+  journal: ['KeyJ'],
+  log: ['KeyL'],
+  drop: ['KeyQ'],
+  cancel: ['Escape'],
+  hotbar1: ['Digit1'],
+  hotbar2: ['Digit2'],
+  hotbar3: ['Digit3'],
+  hotbar4: ['Digit4'],
+  hotbar5: ['Digit5'],
+  hotbar6: ['Digit6'],
+  hotbar7: ['Digit7'],
+  hotbar8: ['Digit8'],
+  hotbar9: ['Digit9'],
+  hotbarPrev: [],
+  hotbarNext: [],
+}
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveUp: 'Move Up',
+  moveDown: 'Move Down',
+  moveLeft: 'Move Left',
+  moveRight: 'Move Right',
+  interact: 'Interact / Place',
+  rest: 'Rest (hold)',
+  craft: 'Crafting',
+  journal: 'Journal',
+  log: 'Message Log',
+  drop: 'Drop Item',
+  cancel: 'Cancel / Close',
+  hotbar1: 'Hotbar 1',
+  hotbar2: 'Hotbar 2',
+  hotbar3: 'Hotbar 3',
+  hotbar4: 'Hotbar 4',
+  hotbar5: 'Hotbar 5',
+  hotbar6: 'Hotbar 6',
+  hotbar7: 'Hotbar 7',
+  hotbar8: 'Hotbar 8',
+  hotbar9: 'Hotbar 9',
+  hotbarPrev: 'Previous Tool',
+  hotbarNext: 'Next Tool',
+}
+
+export const HOTBAR_ACTIONS: InputAction[] = ['hotbar1', 'hotbar2', 'hotbar3', 'hotbar4', 'hotbar5', 'hotbar6', 'hotbar7', 'hotbar8', 'hotbar9']
+
+// Key bindings belong to the player, not to any one island, so they live outside the save slots
+const STORAGE_KEY_BINDINGS = 'tides_input_bindings'
+
+const cloneBindings = (bindings: Bindings): Bindings => {
+  return Object.fromEntries(INPUT_ACTIONS.map(action => [action, [...bindings[action]]])) as Bindings
+}
+
+// Anything missing or malformed falls back to the default for that action
+export const loadBindings = (): Bindings => {
+  const bindings = cloneBindings(DEFAULT_BINDINGS)
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY_BINDINGS) || '{}')
+    for (const action of INPUT_ACTIONS) {
+      const keys = saved?.[action]
+      if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) bindings[action] = keys.slice(0, BINDING_SLOTS)
+    }
+  } catch {
+    // Unreadable bindings just mean the defaults
+  }
+  return bindings
+}
+
+export const saveBindings = (bindings: Bindings) => {
+  localStorage.setItem(STORAGE_KEY_BINDINGS, JSON.stringify(bindings))
+}
+
+export const resetBindings = (): Bindings => {
+  localStorage.removeItem(STORAGE_KEY_BINDINGS)
+  return cloneBindings(DEFAULT_BINDINGS)
+}
+
+export const getBoundAction = (bindings: Bindings, code: string): InputAction | null => {
+  return INPUT_ACTIONS.find(action => bindings[action].includes(code)) ?? null
+}
+
+// Puts `code` in one of the action's slots, taking it away from whatever had it before
+export const rebind = (bindings: Bindings, action: InputAction, slot: number, code: string): Bindings => {
+  const next = cloneBindings(bindings)
+  for (const other of INPUT_ACTIONS) next[other] = next[other].filter(key => key !== code)
+  const keys = next[action]
+  if (slot < keys.length) keys[slot] = code
+  else keys.push(code)
+  return next
+}
+
+export const clearBinding = (bindings: Bindings, action: InputAction, slot: number): Bindings => {
+  const next = cloneBindings(bindings)
+  next[action].splice(slot, 1)
+  return next
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Space: 'Space',
+}
+
+export const formatKey = (code: string): string => {
+  if (KEY_NAMES[code]) return KEY_NAMES[code]
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  return code
+}
+
+// The first key bound to an action, for on-screen hints
+export const describeBinding = (bindings: Bindings, action: InputAction): string => {
+  return bindings[action].length ? formatKey(bindings[action][0]) : 'unbound'
+}
@@ -0,0 +1,77 @@
+import { Direction } from '../game/types'
+import { InputAction } from './bindings'
+
+// --- Input State ---
+// Keyboard, gamepad and touch each hold their own set of actions so letting go
+// on one device never cancels another. The game reads the union.
+
+export interface InputState {
+  keys: Set<InputAction>
+  pad: Set<InputAction>
+  touch: Set<InputAction>
+  padButtons: boolean[] // Gamepad buttons held at the last poll, to spot fresh presses
+}
+
+export const createInputState = (): InputState => ({ keys: new Set(), pad: new Set(), touch: new Set(), padButtons: [] })
+
+export const isHeld = (input: InputState, action: InputAction): boolean => {
+  return input.keys.has(action) || input.pad.has(action) || input.touch.has(action)
+}
+
+// Drops everything held, e.g. when a menu steals focus mid-step
+export const releaseAll = (input: InputState) => {
+  input.keys.clear()
+  input.touch.clear()
+}
+
+const MOVES: [InputAction, Direction][] = [['moveUp', 'up'], ['moveDown', 'down'], ['moveLeft', 'left'], ['moveRight', 'right']]
+
+export const readMove = (input: InputState): Direction | null => {
+  return MOVES.find(([action]) => isHeld(input, action))?.[1] ?? null
+}
+
+// --- Gamepad ---
+// Standard mapping: A, B, X, Y, LB, RB ... then the d-pad at 12-15
+
+const PAD_BUTTONS: { [button: number]: InputAction } = {
+  0: 'interact',
+  1: 'cancel',
+  2: 'rest',
+  3: 'craft',
+  4: 'hotbarPrev',
+  5: 'hotbarNext',
+  8: 'journal', // Back / Select
+  9: 'cancel', // Start
+  12: 'moveUp',
+  13: 'moveDown',
+  14: 'moveLeft',
+  15: 'moveRight',
+}
+
+const STICK_DEADZONE = 0.5
+
+// Refreshes the held gamepad actions and returns the ones pressed since the last poll
+export const pollGamepad = (input: InputState): InputAction[] => {
+  const pad = typeof navigator.getGamepads === 'function' ? navigator.getGamepads().find(p => p?.connected) : null
+  input.pad.clear()
+  if (!pad) { input.padButtons = []; return [] }
+
+  const pressed: InputAction[] = []
+  pad.buttons.forEach((button, index) => {
+    const action = PAD_BUTTONS[index]
+    if (!action) return
+    if (button.pressed) {
+      input.pad.add(action)
+      if (!input.padButtons[index]) pressed.push(action)
+    }
+    input.padButtons[index] = button.pressed
+  })
+
+  // The left stick moves along whichever axis it is pushed furthest
+  const [x = 0, y = 0] = pad.axes
+  if (Math.max(Math.abs(x), Math.abs(y)) > STICK_DEADZONE) {
+    if (Math.abs(x) > Math.abs(y)) input.pad.add(x < 0 ? 'moveLeft' : 'moveRight')
+    else input.pad.add(y < 0 ? 'moveUp' : 'moveDown')
+  }
+  return pressed
+}
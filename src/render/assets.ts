@@ -0,0 +1,94 @@
+import { TILE_SIZE } from '../game/constants'
+import { Direction, Entity, ItemType, Player, TileType } from '../game/types'
+import { drawSprite, SpriteName } from './atlas'
+import {
+  drawCampfire, drawCarrotSeeds, drawChest, drawClam, drawCrab, drawCrate, drawDriftwood, drawFurnace, Drawing, DrawTarget, drawGull, drawMelonSeeds,
+  drawMetal, drawOre, drawPlayerFigure, drawRaft, drawRock, drawRubble, drawSack, drawStump, drawTree, drawWall, drawWorkbench
+} from './drawings'
+
+// --- Asset Registry ---
+// What each tile, ground item and structure looks like. The atlas sprite is used
+// when it has loaded; the procedural drawing covers everything else. Adding an
+// item means adding an entry here, not another branch in the render loop.
+
+export interface Asset {
+  sprite?: SpriteName
+  draw?: Drawing
+}
+
+export const TILE_ASSETS: Record<TileType, Asset> = {
+  [TileType.DeepWater]: { sprite: 'deep_water' },
+  [TileType.ShallowWater]: { sprite: 'shallow_water' },
+  [TileType.Sand]: { sprite: 'sand' },
+  [TileType.Grass]: { sprite: 'grass' },
+}
+
+export const ITEM_ASSETS: { [key in ItemType]?: Asset } = {
+  driftwood: { sprite: 'driftwood', draw: drawDriftwood },
+  metal: { sprite: 'metal', draw: drawMetal },
+  crate: { sprite: 'crate', draw: drawCrate },
+  tree: { sprite: 'tree', draw: drawTree },
+  tree_stump: { sprite: 'tree_stump', draw: drawStump },
+  rock: { sprite: 'rock', draw: drawRock },
+  ore: { sprite: 'ore', draw: drawOre },
+  rubble: { sprite: 'rubble', draw: drawRubble },
+  clam: { sprite: 'clam', draw: drawClam },
+  carrot_seeds: { draw: drawCarrotSeeds },
+  melon_seeds: { draw: drawMelonSeeds },
+}
+
+export const STRUCTURE_ASSETS: { [key in ItemType]?: Asset } = {
+  wall_wood: { draw: drawWall },
+  workbench: { sprite: 'workbench', draw: drawWorkbench },
+  furnace: { sprite: 'furnace', draw: drawFurnace },
+  chest: { sprite: 'chest', draw: drawChest },
+  campfire: { draw: drawCampfire },
+}
+
+const PLAYER_SPRITES: Record<Direction, { idle: SpriteName, walk: SpriteName }> = {
+  up: { idle: 'player_up', walk: 'player_up_walk' },
+  down: { idle: 'player_down', walk: 'player_down_walk' },
+  left: { idle: 'player_left', walk: 'player_left_walk' },
+  right: { idle: 'player_right', walk: 'player_right_walk' },
+}
+
+const drawAsset = (ctx: CanvasRenderingContext2D, asset: Asset | undefined, target: DrawTarget): boolean => {
+  if (!asset) return false
+  if (drawSprite(ctx, asset.sprite, target.drawX, target.drawY, target.time)) return true
+  if (!asset.draw) return false
+  asset.draw(ctx, target)
+  return true
+}
+
+// Returns false when the tile has no sprite, leaving its flat colour to the caller
+export const drawTileSprite = (ctx: CanvasRenderingContext2D, type: TileType, drawX: number, drawY: number): boolean => {
+  return drawSprite(ctx, TILE_ASSETS[type].sprite, drawX, drawY)
+}
+
+export const drawItem = (ctx: CanvasRenderingContext2D, item: ItemType, target: DrawTarget) => {
+  if (!drawAsset(ctx, ITEM_ASSETS[item], target)) drawSack(ctx, target)
+}
+
+export const drawStructure = (ctx: CanvasRenderingContext2D, structure: ItemType, target: DrawTarget) => {
+  drawAsset(ctx, STRUCTURE_ASSETS[structure], target)
+}
+
+// Gulls are drawn over a shadow on the ground so they read as flying
+export const drawEntity = (ctx: CanvasRenderingContext2D, entity: Entity, drawX: number, drawY: number, time: number) => {
+  if (entity.kind === 'gull') {
+    ctx.fillStyle = 'rgba(0,0,0,0.15)'
+    ctx.beginPath(); ctx.ellipse(drawX + TILE_SIZE / 2, drawY + TILE_SIZE / 2 + 16, 12, 5, 0, 0, Math.PI * 2); ctx.fill()
+    if (!drawSprite(ctx, 'gull', drawX, drawY, time)) drawGull(ctx, drawX, drawY, time)
+    return
+  }
+  const moving = entity.state === 'walk' || entity.state === 'flee'
+  if (!drawSprite(ctx, moving ? 'crab_walk' : 'crab', drawX, drawY, time)) drawCrab(ctx, drawX, drawY, time, moving)
+}
+
+export const drawPlayer = (ctx: CanvasRenderingContext2D, player: Player, drawX: number, drawY: number, time: number) => {
+  if (player.onRaft && !drawSprite(ctx, 'raft', drawX, drawY)) drawRaft(ctx, drawX, drawY)
+  const sprites = PLAYER_SPRITES[player.facing]
+  // Walk frames only while actually walking; paddling the raft stands still
+  const sprite = player.isMoving && !player.onRaft ? sprites.walk : sprites.idle
+  if (!drawSprite(ctx, sprite, drawX, drawY, time)) drawPlayerFigure(ctx, drawX, drawY, player.facing)
+}
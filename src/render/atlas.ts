@@ -0,0 +1,78 @@
+import { TILE_SIZE } from '../game/constants'
+import atlasUrl from './atlas.svg'
+
+// --- Sprite Atlas ---
+// One bundled image cut into TILE_SIZE cells. Sprites are named runs of cells;
+// anything with more than one frame cycles through them at its own rate.
+
+export interface Sprite {
+  frames: [number, number][] // Cell column and row for each frame
+  fps?: number
+  offsetY?: number // Pixels to shift the sprite down from the tile it is drawn on
+}
+
+const cells = (row: number, ...cols: number[]): [number, number][] => cols.map(col => [col, row])
+
+export const ATLAS_SPRITES = {
+  deep_water: { frames: cells(0, 0) },
+  shallow_water: { frames: cells(0, 1) },
+  sand: { frames: cells(0, 2) },
+  grass: { frames: cells(0, 3) },
+
+  driftwood: { frames: cells(1, 0) },
+  metal: { frames: cells(1, 1) },
+  crate: { frames: cells(1, 2) },
+  tree: { frames: cells(1, 3) },
+  tree_stump: { frames: cells(1, 4) },
+  rock: { frames: cells(1, 5) },
+  ore: { frames: cells(1, 6, 6, 6, 7), fps: 2 },
+
+  rubble: { frames: cells(2, 0) },
+  clam: { frames: cells(2, 1) },
+  workbench: { frames: cells(2, 2) },
+  furnace: { frames: cells(2, 3, 4), fps: 3 },
+  chest: { frames: cells(2, 5) },
+
+  player_down: { frames: cells(3, 0) },
+  player_down_walk: { frames: cells(3, 0, 1), fps: 6 },
+  player_up: { frames: cells(3, 2) },
+  player_up_walk: { frames: cells(3, 2, 3), fps: 6 },
+  player_left: { frames: cells(3, 4) },
+  player_left_walk: { frames: cells(3, 4, 5), fps: 6 },
+  player_right: { frames: cells(3, 6) },
+  player_right_walk: { frames: cells(3, 6, 7), fps: 6 },
+
+  raft: { frames: cells(4, 0), offsetY: 38 },
+  crab: { frames: cells(4, 1) },
+  crab_walk: { frames: cells(4, 1, 2), fps: 8 },
+  gull: { frames: cells(4, 3, 4), fps: 5, offsetY: -16 }, // Drawn in the air above its shadow
+} satisfies Record<string, Sprite>
+
+export type SpriteName = keyof typeof ATLAS_SPRITES
+
+let atlas: HTMLImageElement | null = null
+let loading: Promise<void> | null = null
+
+// Resolves once the atlas can be drawn; until then (or if it fails) callers fall back
+export const loadAtlas = (): Promise<void> => {
+  if (!loading) {
+    loading = new Promise(resolve => {
+      const image = new Image()
+      image.onload = () => { atlas = image; resolve() }
+      image.onerror = () => { console.warn('Sprite atlas failed to load; using procedural drawings'); resolve() }
+      image.src = atlasUrl
+    })
+  }
+  return loading
+}
+
+export const isAtlasReady = (): boolean => atlas !== null
+
+// Draws the sprite's current frame at a tile position, returning false if it couldn't
+export const drawSprite = (ctx: CanvasRenderingContext2D, name: SpriteName | undefined, drawX: number, drawY: number, time = 0): boolean => {
+  if (!atlas || !name) return false
+  const sprite: Sprite = ATLAS_SPRITES[name]
+  const frame = sprite.frames[Math.floor(time * (sprite.fps || 0)) % sprite.frames.length]
+  ctx.drawImage(atlas, frame[0] * TILE_SIZE, frame[1] * TILE_SIZE, TILE_SIZE, TILE_SIZE, drawX, drawY + (sprite.offsetY || 0), TILE_SIZE, TILE_SIZE)
+  return true
+}
@@ -0,0 +1,295 @@
+import { MAP_HEIGHT, MAP_WIDTH, TILE_SIZE } from '../game/constants'
+import { Direction, Tile } from '../game/types'
+
+// --- Procedural Drawings ---
+// Hand-drawn canvas fallbacks for anything the atlas has no sprite for (or before it loads)
+
+export interface DrawTarget {
+  map: Tile[][]
+  x: number
+  y: number
+  drawX: number
+  drawY: number
+  time: number
+  lit?: boolean // Set for a campfire that is burning
+}
+
+export type Drawing = (ctx: CanvasRenderingContext2D, target: DrawTarget) => void
+
+export const drawRoundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath()
+  ctx.moveTo(x + r, y)
+  ctx.lineTo(x + w - r, y)
+  ctx.quadraticCurveTo(x + w, y, x + w, y + r)
+  ctx.lineTo(x + w, y + h - r)
+  ctx.quadraticCurveTo(x + w, y + h, x + w - r, y + h)
+  ctx.lineTo(x + r, y + h)
+  ctx.quadraticCurveTo(x, y + h, x, y + h - r)
+  ctx.lineTo(x, y + r)
+  ctx.quadraticCurveTo(x, y, x + r, y)
+  ctx.closePath()
+  ctx.fill()
+}
+
+const center = ({ drawX, drawY }: DrawTarget) => ({ cx: drawX + TILE_SIZE / 2, cy: drawY + TILE_SIZE / 2 })
+
+// --- Ground Items ---
+
+export const drawDriftwood: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.save()
+  ctx.translate(cx, cy)
+  ctx.rotate((target.x * 1313 + target.y * 3737) % 3)
+  ctx.fillStyle = '#8d6e63'
+  drawRoundedRect(ctx, -12, -6, 24, 12, 4)
+  ctx.restore()
+}
+
+export const drawMetal: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#b0bec5'
+  ctx.beginPath()
+  ctx.moveTo(cx - 10, cy + 10)
+  ctx.lineTo(cx, cy - 12)
+  ctx.lineTo(cx + 12, cy + 5)
+  ctx.closePath()
+  ctx.fill()
+  ctx.strokeStyle = '#78909c'; ctx.stroke()
+}
+
+export const drawCrate: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#a1887f'
+  drawRoundedRect(ctx, cx - 16, cy - 16, 32, 32, 4)
+  ctx.strokeStyle = '#5d4037'
+  ctx.lineWidth = 2
+  ctx.strokeRect(cx - 16, cy - 16, 32, 32)
+  ctx.beginPath()
+  ctx.moveTo(cx - 16, cy - 16); ctx.lineTo(cx + 16, cy + 16)
+  ctx.moveTo(cx + 16, cy - 16); ctx.lineTo(cx - 16, cy + 16)
+  ctx.stroke()
+}
+
+export const drawTree: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = 'rgba(0,0,0,0.2)'
+  ctx.beginPath(); ctx.ellipse(cx, cy + 24, 16, 8, 0, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#795548'
+  ctx.fillRect(cx - 6, cy, 12, 24)
+  ctx.fillStyle = '#66bb6a'
+  ctx.beginPath(); ctx.arc(cx, cy - 10, 24, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#4caf50'
+  ctx.beginPath(); ctx.arc(cx - 8, cy - 14, 18, 0, Math.PI * 2); ctx.fill()
+}
+
+export const drawStump: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#795548'
+  drawRoundedRect(ctx, cx - 8, cy + 8, 16, 16, 4)
+  ctx.fillStyle = '#a1887f'
+  ctx.beginPath(); ctx.arc(cx, cy + 16, 5, 0, Math.PI * 2); ctx.fill()
+}
+
+export const drawRock: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = 'rgba(0,0,0,0.2)'
+  ctx.beginPath(); ctx.ellipse(cx, cy + 16, 20, 7, 0, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#90a4ae'
+  ctx.beginPath()
+  ctx.moveTo(cx - 20, cy + 16); ctx.lineTo(cx - 14, cy - 8); ctx.lineTo(cx + 2, cy - 16)
+  ctx.lineTo(cx + 16, cy - 6); ctx.lineTo(cx + 20, cy + 16)
+  ctx.closePath(); ctx.fill()
+  ctx.fillStyle = '#b0bec5'
+  ctx.beginPath(); ctx.moveTo(cx - 14, cy - 8); ctx.lineTo(cx + 2, cy - 16); ctx.lineTo(cx, cy); ctx.closePath(); ctx.fill()
+}
+
+export const drawOre: Drawing = (ctx, target) => {
+  drawRock(ctx, target)
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#ffb74d'
+  for (const [ox, oy] of [[-8, 4], [6, -4], [10, 8]]) {
+    ctx.beginPath(); ctx.arc(cx + ox, cy + oy, 3, 0, Math.PI * 2); ctx.fill()
+  }
+}
+
+export const drawRubble: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#78909c'
+  for (const [ox, oy, r] of [[-8, 10, 5], [4, 12, 6], [10, 6, 4]]) {
+    ctx.beginPath(); ctx.arc(cx + ox, cy + oy, r, 0, Math.PI * 2); ctx.fill()
+  }
+}
+
+export const drawClam: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#d7ccc8'
+  ctx.beginPath(); ctx.arc(cx, cy + 4, 10, Math.PI, Math.PI * 2); ctx.closePath(); ctx.fill()
+  ctx.strokeStyle = '#a1887f'
+  ctx.lineWidth = 2
+  ctx.stroke()
+  for (let i = -1; i <= 1; i++) { ctx.beginPath(); ctx.moveTo(cx, cy + 4); ctx.lineTo(cx + i * 7, cy - 4); ctx.stroke() }
+}
+
+const drawSeedPacket = (color: string): Drawing => (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#efebe9'
+  drawRoundedRect(ctx, cx - 9, cy - 12, 18, 24, 3)
+  ctx.fillStyle = color
+  ctx.beginPath(); ctx.arc(cx, cy, 5, 0, Math.PI * 2); ctx.fill()
+}
+
+export const drawCarrotSeeds = drawSeedPacket('#ff9800')
+export const drawMelonSeeds = drawSeedPacket('#558b2f')
+
+// Anything else on the ground (e.g. spilled from a chest) shows as a small sack
+export const drawSack: Drawing = (ctx, target) => {
+  const { cx, cy } = center(target)
+  ctx.fillStyle = '#bcaaa4'
+  ctx.beginPath(); ctx.arc(cx, cy + 4, 10, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#8d6e63'
+  ctx.fillRect(cx - 4, cy - 10, 8, 6)
+}
+
+// --- Structures ---
+
+// Walls join up with any walls next to them, so they never come from the atlas
+export const drawWall: Drawing = (ctx, { map, x, y, drawX, drawY }) => {
+  ctx.fillStyle = '#6d4c41'
+  const wallW = TILE_SIZE * 0.4
+  const wallOffset = (TILE_SIZE - wallW) / 2
+  ctx.fillRect(drawX + wallOffset, drawY + wallOffset, wallW, wallW)
+  const cx = drawX + TILE_SIZE / 2
+  const cy = drawY + TILE_SIZE / 2
+  const half = TILE_SIZE / 2
+  const nUp = (y > 0 && map[y - 1][x].placedStructure === 'wall_wood')
+  const nDown = (y < MAP_HEIGHT - 1 && map[y + 1][x].placedStructure === 'wall_wood')
+  const nLeft = (x > 0 && map[y][x - 1].placedStructure === 'wall_wood')
+  const nRight = (x < MAP_WIDTH - 1 && map[y][x + 1].placedStructure === 'wall_wood')
+  const beamThick = 10
+  if (nUp) ctx.fillRect(cx - beamThick / 2, drawY, beamThick, half)
+  if (nDown) ctx.fillRect(cx - beamThick / 2, cy, beamThick, half)
+  if (nLeft) ctx.fillRect(drawX, cy - beamThick / 2, half, beamThick)
+  if (nRight) ctx.fillRect(cx, cy - beamThick / 2, half, beamThick)
+  ctx.fillStyle = '#5d4037'
+  ctx.fillRect(drawX + wallOffset, drawY + wallOffset, wallW, wallW * 0.5)
+}
+
+export const drawWorkbench: Drawing = (ctx, { drawX, drawY }) => {
+  ctx.fillStyle = 'rgba(0,0,0,0.2)'
+  ctx.fillRect(drawX + 8, drawY + 44, TILE_SIZE - 16, 8)
+  ctx.fillStyle = '#5d4037'
+  ctx.fillRect(drawX + 12, drawY + 28, 6, 22)
+  ctx.fillRect(drawX + TILE_SIZE - 18, drawY + 28, 6, 22)
+  ctx.fillStyle = '#8d6e63'
+  drawRoundedRect(ctx, drawX + 6, drawY + 18, TILE_SIZE - 12, 14, 3)
+  ctx.fillStyle = '#b0bec5'
+  ctx.fillRect(drawX + 16, drawY + 12, 14, 6)
+}
+
+export const drawFurnace: Drawing = (ctx, { drawX, drawY, time }) => {
+  ctx.fillStyle = '#757575'
+  drawRoundedRect(ctx, drawX + 10, drawY + 10, TILE_SIZE - 20, TILE_SIZE - 16, 8)
+  ctx.strokeStyle = '#424242'
+  ctx.lineWidth = 2
+  ctx.stroke()
+  ctx.fillStyle = '#212121'
+  drawRoundedRect(ctx, drawX + 22, drawY + 30, 20, 16, 4)
+  ctx.fillStyle = `rgba(255, ${Math.floor(140 + Math.sin(time * 4) * 40)}, 0, 0.8)`
+  ctx.fillRect(drawX + 25, drawY + 38, 14, 6)
+}
+
+export const drawChest: Drawing = (ctx, { drawX, drawY }) => {
+  ctx.fillStyle = '#8d6e63'
+  drawRoundedRect(ctx, drawX + 14, drawY + 24, 36, 28, 3)
+  ctx.fillStyle = '#a1887f'
+  drawRoundedRect(ctx, drawX + 14, drawY + 18, 36, 10, 3)
+  ctx.fillStyle = '#ffca28'
+  ctx.fillRect(drawX + 29, drawY + 26, 6, 8)
+}
+
+export const drawCampfire: Drawing = (ctx, { drawX, drawY, time, lit }) => {
+  const cx = drawX + TILE_SIZE / 2
+  const cy = drawY + TILE_SIZE / 2 + 8
+  ctx.fillStyle = '#757575'
+  for (let i = 0; i < 8; i++) {
+    const angle = i / 8 * Math.PI * 2
+    ctx.beginPath(); ctx.arc(cx + Math.cos(angle) * 16, cy + Math.sin(angle) * 9, 5, 0, Math.PI * 2); ctx.fill()
+  }
+  ctx.fillStyle = '#5d4037'
+  ctx.save()
+  ctx.translate(cx, cy)
+  for (const angle of [-0.5, 0.5]) { ctx.rotate(angle); ctx.fillRect(-12, -3, 24, 6); ctx.rotate(-angle) }
+  ctx.restore()
+  if (!lit) return
+  const flicker = Math.sin(time * 12) * 3
+  ctx.fillStyle = 'rgba(255, 112, 67, 0.9)'
+  ctx.beginPath(); ctx.moveTo(cx - 9, cy); ctx.quadraticCurveTo(cx - 6, cy - 16, cx + flicker, cy - 24 - flicker); ctx.quadraticCurveTo(cx + 6, cy - 16, cx + 9, cy); ctx.closePath(); ctx.fill()
+  ctx.fillStyle = 'rgba(255, 213, 79, 0.9)'
+  ctx.beginPath(); ctx.moveTo(cx - 5, cy); ctx.quadraticCurveTo(cx - 3, cy - 9, cx - flicker / 2, cy - 14 + flicker); ctx.quadraticCurveTo(cx + 3, cy - 9, cx + 5, cy); ctx.closePath(); ctx.fill()
+}
+
+// --- Wildlife ---
+
+export const drawCrab = (ctx: CanvasRenderingContext2D, drawX: number, drawY: number, time: number, moving: boolean) => {
+  const cx = drawX + TILE_SIZE / 2
+  const cy = drawY + TILE_SIZE / 2 + 6
+  const wiggle = moving && Math.floor(time * 8) % 2 ? 3 : 0
+  ctx.strokeStyle = '#b71c1c'
+  ctx.lineWidth = 2
+  for (const side of [-1, 1]) {
+    for (const leg of [0, 4]) {
+      ctx.beginPath(); ctx.moveTo(cx + side * 10, cy + leg); ctx.lineTo(cx + side * (18 + wiggle), cy + leg + 6 - wiggle); ctx.stroke()
+    }
+    ctx.beginPath(); ctx.moveTo(cx + side * 8, cy - 8); ctx.lineTo(cx + side * 16, cy - 16 + wiggle); ctx.stroke()
+  }
+  ctx.fillStyle = '#e53935'
+  ctx.beginPath(); ctx.ellipse(cx, cy, 12, 8, 0, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#212121'
+  ctx.beginPath(); ctx.arc(cx - 4, cy - 6, 2, 0, Math.PI * 2); ctx.arc(cx + 4, cy - 6, 2, 0, Math.PI * 2); ctx.fill()
+}
+
+export const drawGull = (ctx: CanvasRenderingContext2D, drawX: number, drawY: number, time: number) => {
+  const cx = drawX + TILE_SIZE / 2
+  const cy = drawY + TILE_SIZE / 2 - 14
+  const flap = Math.sin(time * 10) * 12
+  ctx.fillStyle = '#eceff1'
+  ctx.strokeStyle = '#90a4ae'
+  ctx.lineWidth = 1.5
+  for (const side of [-1, 1]) {
+    ctx.beginPath(); ctx.moveTo(cx, cy - 2); ctx.quadraticCurveTo(cx + side * 14, cy - 4 - flap, cx + side * 28, cy - flap); ctx.lineTo(cx + side * 6, cy + 4); ctx.closePath(); ctx.fill(); ctx.stroke()
+  }
+  ctx.fillStyle = '#fafafa'
+  ctx.beginPath(); ctx.ellipse(cx, cy + 2, 7, 10, 0, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#ffb300'
+  ctx.beginPath(); ctx.moveTo(cx - 3, cy - 8); ctx.lineTo(cx, cy - 14); ctx.lineTo(cx + 3, cy - 8); ctx.closePath(); ctx.fill()
+}
+
+// --- Player ---
+
+export const drawRaft = (ctx: CanvasRenderingContext2D, drawX: number, drawY: number) => {
+  const pcx = drawX + TILE_SIZE / 2
+  const pcy = drawY + TILE_SIZE / 2
+  ctx.fillStyle = '#6d4c41'
+  drawRoundedRect(ctx, pcx - 26, pcy + 10, 52, 24, 4)
+  ctx.fillStyle = '#8d6e63'
+  for (let i = 0; i < 4; i++) ctx.fillRect(pcx - 24 + i * 12, pcy + 12, 10, 20)
+}
+
+export const drawPlayerFigure = (ctx: CanvasRenderingContext2D, drawX: number, drawY: number, facing: Direction) => {
+  const pcx = drawX + TILE_SIZE / 2
+  const pcy = drawY + TILE_SIZE / 2
+  ctx.fillStyle = 'rgba(0,0,0,0.2)'
+  ctx.beginPath(); ctx.ellipse(pcx, pcy + 24, 16, 8, 0, 0, Math.PI * 2); ctx.fill()
+  ctx.fillStyle = '#ff7043'
+  drawRoundedRect(ctx, pcx - 14, pcy - 10, 28, 36, 8)
+  ctx.fillStyle = '#ffcc80'
+  drawRoundedRect(ctx, pcx - 14, pcy - 32, 28, 26, 8)
+  ctx.fillStyle = '#3e2723'
+  let eyeOffsetX = 0
+  if (facing === 'left') eyeOffsetX = -6
+  if (facing === 'right') eyeOffsetX = 6
+  if (facing !== 'up') {
+    ctx.beginPath(); ctx.arc(pcx - 6 + eyeOffsetX, pcy - 24, 3, 0, Math.PI * 2); ctx.fill()
+    ctx.beginPath(); ctx.arc(pcx + 6 + eyeOffsetX, pcy - 24, 3, 0, Math.PI * 2); ctx.fill()
+  }
+}
@@ -0,0 +1,63 @@
+import { TILE_SIZE } from '../game/constants'
+import { Camera } from '../game/types'
+
+// --- Floating Text ---
+// Short labels like "+3 wood" that drift up from a tile and fade. Several
+// landing on the same tile at once are stacked rather than drawn over each other.
+
+interface FloatingText {
+  text: string
+  color: string
+  x: number // World pixels
+  y: number
+  age: number // Seconds
+}
+
+export interface FloatingTextLayer {
+  texts: FloatingText[]
+}
+
+const LIFE = 1.4
+const RISE_SPEED = 28 // Pixels per second
+const LINE_HEIGHT = 16
+const MAX_TEXTS = 40
+
+export const createFloatingTextLayer = (): FloatingTextLayer => ({ texts: [] })
+
+// Starts a label just above the given tile
+export const addFloatingText = (layer: FloatingTextLayer, text: string, tileX: number, tileY: number, color = '#fff59d') => {
+  const x = tileX * TILE_SIZE + TILE_SIZE / 2
+  const y = tileY * TILE_SIZE - 4
+  const stacked = layer.texts.filter(other => other.age < 0.3 && Math.abs(other.x - x) < TILE_SIZE / 2 && Math.abs(other.y - y) < TILE_SIZE).length
+  layer.texts.push({ text, color, x, y: y - stacked * LINE_HEIGHT, age: 0 })
+  if (layer.texts.length > MAX_TEXTS) layer.texts.shift()
+}
+
+export const updateFloatingText = (layer: FloatingTextLayer, deltaMs: number) => {
+  const dt = deltaMs / 1000
+  for (const text of layer.texts) {
+    text.age += dt
+    text.y -= RISE_SPEED * dt
+  }
+  layer.texts = layer.texts.filter(text => text.age < LIFE)
+}
+
+export const clearFloatingText = (layer: FloatingTextLayer) => {
+  layer.texts = []
+}
+
+export const drawFloatingText = (ctx: CanvasRenderingContext2D, layer: FloatingTextLayer, camera: Camera) => {
+  ctx.save()
+  ctx.font = 'bold 14px monospace'
+  ctx.textAlign = 'center'
+  ctx.lineWidth = 3
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)'
+  for (const text of layer.texts) {
+    // Holds full strength for the first half, then fades
+    ctx.globalAlpha = Math.min(1, 2 - 2 * text.age / LIFE)
+    ctx.fillStyle = text.color
+    ctx.strokeText(text.text, text.x - camera.x, text.y - camera.y)
+    ctx.fillText(text.text, text.x - camera.x, text.y - camera.y)
+  }
+  ctx.restore()
+}
@@ -0,0 +1,110 @@
+import { TILE_SIZE } from '../game/constants'
+import { Camera } from '../game/types'
+
+// --- Particles ---
+// Purely cosmetic, so they live with the renderer and use Math.random rather
+// than the seeded streams. A fixed pool is reused so bursts never allocate;
+// when it is full the oldest particles are recycled first.
+
+export type EmitterId = 'splash' | 'chips' | 'shards' | 'sparkle' | 'dust' | 'pickup'
+
+export interface EmitterConfig {
+  count: number
+  colors: string[]
+  speed: [number, number] // Pixels per second
+  angle: number // Direction of travel in radians (0 is right, -PI/2 is up)
+  spread: number // Radians either side of `angle`
+  gravity: number // Pixels per second squared
+  life: [number, number] // Seconds
+  size: [number, number]
+  scatter?: number // Pixels around the origin to spawn in
+}
+
+export const EMITTERS: Record<EmitterId, EmitterConfig> = {
+  splash: { count: 10, colors: ['#e3f2fd', '#90caf9', '#ffffff'], speed: [40, 110], angle: -Math.PI / 2, spread: 1.1, gravity: 320, life: [0.3, 0.6], size: [2, 4], scatter: 10 },
+  chips: { count: 12, colors: ['#a1887f', '#8d6e63', '#d7ccc8'], speed: [60, 160], angle: -Math.PI / 2, spread: 1.4, gravity: 420, life: [0.4, 0.8], size: [2, 5] },
+  shards: { count: 10, colors: ['#90a4ae', '#b0bec5', '#607d8b'], speed: [70, 170], angle: -Math.PI / 2, spread: 1.3, gravity: 480, life: [0.3, 0.7], size: [2, 4] },
+  sparkle: { count: 4, colors: ['#fffde7', '#fff59d', '#ffffff'], speed: [5, 20], angle: -Math.PI / 2, spread: Math.PI, gravity: -10, life: [0.8, 1.6], size: [1, 3], scatter: 20 },
+  dust: { count: 14, colors: ['#d7ccc8', '#bcaaa4', '#efebe9'], speed: [20, 60], angle: 0, spread: Math.PI, gravity: -20, life: [0.5, 0.9], size: [3, 6], scatter: 20 },
+  pickup: { count: 8, colors: ['#fff59d', '#ffffff'], speed: [30, 70], angle: -Math.PI / 2, spread: 0.8, gravity: -40, life: [0.4, 0.7], size: [2, 3] },
+}
+
+interface Particle {
+  active: boolean
+  x: number
+  y: number
+  vx: number
+  vy: number
+  gravity: number
+  age: number
+  life: number
+  size: number
+  color: string
+}
+
+export interface ParticleSystem {
+  pool: Particle[]
+  next: number // Slot the next particle is written to
+}
+
+const DEFAULT_POOL_SIZE = 600
+
+export const createParticleSystem = (size = DEFAULT_POOL_SIZE): ParticleSystem => ({
+  pool: Array.from({ length: size }, () => ({ active: false, x: 0, y: 0, vx: 0, vy: 0, gravity: 0, age: 0, life: 0, size: 0, color: '' })),
+  next: 0
+})
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min)
+
+// Bursts an emitter from the centre of a tile
+export const emitAt = (system: ParticleSystem, id: EmitterId, tileX: number, tileY: number) => {
+  emit(system, id, tileX * TILE_SIZE + TILE_SIZE / 2, tileY * TILE_SIZE + TILE_SIZE / 2)
+}
+
+// Bursts an emitter at a point in world pixels
+export const emit = (system: ParticleSystem, id: EmitterId, x: number, y: number) => {
+  const config = EMITTERS[id]
+  const scatter = config.scatter || 0
+  for (let i = 0; i < config.count; i++) {
+    const particle = system.pool[system.next]
+    system.next = (system.next + 1) % system.pool.length
+    const angle = config.angle + (Math.random() * 2 - 1) * config.spread
+    const speed = between(config.speed)
+    particle.active = true
+    particle.x = x + (Math.random() * 2 - 1) * scatter
+    particle.y = y + (Math.random() * 2 - 1) * scatter
+    particle.vx = Math.cos(angle) * speed
+    particle.vy = Math.sin(angle) * speed
+    particle.gravity = config.gravity
+    particle.age = 0
+    particle.life = between(config.life)
+    particle.size = between(config.size)
+    particle.color = config.colors[Math.floor(Math.random() * config.colors.length)]
+  }
+}
+
+export const updateParticles = (system: ParticleSystem, deltaMs: number) => {
+  const dt = deltaMs / 1000
+  for (const particle of system.pool) {
+    if (!particle.active) continue
+    particle.age += dt
+    if (particle.age >= particle.life) { particle.active = false; continue }
+    particle.vy += particle.gravity * dt
+    particle.x += particle.vx * dt
+    particle.y += particle.vy * dt
+  }
+}
+
+export const clearParticles = (system: ParticleSystem) => {
+  for (const particle of system.pool) particle.active = false
+}
+
+export const drawParticles = (ctx: CanvasRenderingContext2D, system: ParticleSystem, camera: Camera) => {
+  for (const particle of system.pool) {
+    if (!particle.active) continue
+    ctx.globalAlpha = 1 - particle.age / particle.life
+    ctx.fillStyle = particle.color
+    ctx.fillRect(particle.x - camera.x - particle.size / 2, particle.y - camera.y - particle.size / 2, particle.size, particle.size)
+  }
+  ctx.globalAlpha = 1
+}